@@ -0,0 +1,159 @@
+/*
+* Copyright (c) 2025, VectorCamp PC
+*
+* Licensed under the Apache License, Version 2.0 (the "License");
+* you may not use this file except in compliance with the License.
+* You may obtain a copy of the License at
+*
+*    http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing, software
+* distributed under the License is distributed on an "AS IS" BASIS,
+* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+* See the License for the specific language governing permissions and
+* limitations under the License.
+*/
+
+import * as vscode from 'vscode';
+import { setApiTokenValue } from '../config';
+import { ApiError, apiGet } from './httpClient';
+import { ENDPOINTS, IntrinsicNamesResponse, tokenQuery } from './contract';
+
+const SECRET_KEY = 'code.simd.info.apiToken';
+
+const tokenChanged = new vscode.EventEmitter<void>();
+
+// Fires after the token is set, replaced or removed, in this window or another
+export const onDidChangeApiToken = tokenChanged.event;
+
+// Intrinsic name prefixes per architecture family
+const ARCH_PREFIXES: Array<[string, RegExp]> = [
+  ['Intel SSE/AVX/AVX-512', /^_mm\d*_/],
+  ['Arm SVE', /^sv[a-z]/],
+  ['Power VSX / IBM Z', /^vec_/],
+  ['Arm NEON', /^v[a-z0-9]+_[a-z0-9_]*(s|u|f|p|bf|mf)\d+(x\d+)?$/],
+  ['RISC-V RVV', /^__riscv_v/],
+  ['LoongArch LSX/LASX', /^__l(a)?sx_/],
+  ['MIPS MSA', /^__msa_/],
+];
+
+export interface TokenValidation {
+  intrinsicCount: number;
+  architectures: Array<{ name: string; count: number }>;
+}
+
+// Ask the API what the token unlocks. Rejects with an ApiError when the API
+// refuses the token or it unlocks nothing.
+export async function validateApiToken(token: string): Promise<TokenValidation> {
+  const json = await apiGet<IntrinsicNamesResponse>(ENDPOINTS.intrinsicNames(), tokenQuery(token));
+  const names = typeof json?.intrinsics === 'string' ? json.intrinsics.split(/\s+/).filter(Boolean) : [];
+  if (!names.length) {
+    throw new ApiError('The token does not unlock any intrinsics', 403);
+  }
+
+  const counts = new Map<string, number>();
+  for (const name of names) {
+    const arch = ARCH_PREFIXES.find(([, prefix]) => prefix.test(name))?.[0] ?? 'Other';
+    counts.set(arch, (counts.get(arch) ?? 0) + 1);
+  }
+  return {
+    intrinsicCount: names.length,
+    architectures: [...counts].map(([name, count]) => ({ name, count })).sort((a, b) => b.count - a.count),
+  };
+}
+
+function describeValidation(validation: TokenValidation): string {
+  const archs = validation.architectures.map(a => `${a.name} (${a.count})`).join(', ');
+  return `${validation.intrinsicCount} intrinsics unlocked: ${archs}`;
+}
+
+async function loadToken(context: vscode.ExtensionContext) {
+  setApiTokenValue(await context.secrets.get(SECRET_KEY));
+}
+
+// A token typed into the settings is moved to SecretStorage and removed from
+// every settings file it was found in
+async function migrateSettingToken(context: vscode.ExtensionContext): Promise<boolean> {
+  const config = vscode.workspace.getConfiguration('code.simd.info');
+  const inspected = config.inspect<string>('apiToken');
+  const token = inspected?.workspaceFolderValue || inspected?.workspaceValue || inspected?.globalValue;
+  if (!token) {return false;}
+
+  await context.secrets.store(SECRET_KEY, token.trim());
+  const targets: Array<[unknown, vscode.ConfigurationTarget]> = [
+    [inspected?.globalValue, vscode.ConfigurationTarget.Global],
+    [inspected?.workspaceValue, vscode.ConfigurationTarget.Workspace],
+    [inspected?.workspaceFolderValue, vscode.ConfigurationTarget.WorkspaceFolder],
+  ];
+  for (const [value, target] of targets) {
+    if (value !== undefined) {
+      await config.update('apiToken', undefined, target).then(undefined, err => console.warn('Failed to remove the apiToken setting:', err));
+    }
+  }
+  vscode.window.showInformationMessage('Your simd.info API token was moved from the settings to secure storage.');
+  return true;
+}
+
+async function setTokenCommand(context: vscode.ExtensionContext) {
+  const token = (await vscode.window.showInputBox({
+    title: 'simd.info API Token',
+    prompt: 'Get your token from https://simd.info',
+    password: true,
+    ignoreFocusOut: true,
+    validateInput: value => value.trim() ? undefined : 'Enter a token',
+  }))?.trim();
+  if (!token) {return;}
+
+  let validation: TokenValidation | undefined;
+  try {
+    validation = await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title: 'Checking the API token...' },
+      () => validateApiToken(token)
+    );
+  } catch (err: any) {
+    const rejected = err instanceof ApiError && (err.status === 401 || err.status === 403);
+    if (rejected) {
+      vscode.window.showErrorMessage(`The API token was not accepted: ${err.message}`);
+      return;
+    }
+    // Offline or the API is down: the token may still be fine
+    const choice = await vscode.window.showWarningMessage(
+      `Could not check the API token (${err.message}). Save it anyway?`, 'Save', 'Cancel'
+    );
+    if (choice !== 'Save') {return;}
+  }
+
+  await context.secrets.store(SECRET_KEY, token);
+  vscode.window.showInformationMessage(validation ? `API token saved. ${describeValidation(validation)}.` : 'API token saved.');
+}
+
+async function signOutCommand(context: vscode.ExtensionContext) {
+  if (!(await context.secrets.get(SECRET_KEY))) {
+    vscode.window.showInformationMessage('No simd.info API token is set.');
+    return;
+  }
+  await context.secrets.delete(SECRET_KEY);
+  vscode.window.showInformationMessage('Signed out of simd.info. Only the free intrinsics are available until you set a token again.');
+}
+
+// Load the token before anything asks the API, and keep it current
+export async function initApiToken(context: vscode.ExtensionContext) {
+  await migrateSettingToken(context);
+  await loadToken(context);
+
+  context.subscriptions.push(
+    tokenChanged,
+    context.secrets.onDidChange(async e => {
+      if (e.key !== SECRET_KEY) {return;}
+      await loadToken(context);
+      tokenChanged.fire();
+    }),
+    vscode.workspace.onDidChangeConfiguration(e => {
+      if (e.affectsConfiguration('code.simd.info.apiToken')) {
+        migrateSettingToken(context);
+      }
+    }),
+    vscode.commands.registerCommand('code.simd.ai.setApiToken', () => setTokenCommand(context)),
+    vscode.commands.registerCommand('code.simd.ai.signOut', () => signOutCommand(context))
+  );
+}
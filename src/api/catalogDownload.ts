@@ -0,0 +1,83 @@
+/*
+* Copyright (c) 2025, VectorCamp PC
+*
+* Licensed under the Apache License, Version 2.0 (the "License");
+* you may not use this file except in compliance with the License.
+* You may obtain a copy of the License at
+*
+*    http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing, software
+* distributed under the License is distributed on an "AS IS" BASIS,
+* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+* See the License for the specific language governing permissions and
+* limitations under the License.
+*/
+
+import * as vscode from 'vscode';
+import { fetchIntrinsicInfo, fetchIntrinsicNames } from './simdAi';
+import { fetchDatatypesByArch } from './datatypeFetcher';
+import { flushOfflineCache } from './offlineCache';
+import { hasApiToken } from '../config';
+
+// Requests in flight at once, enough to be quick without hammering the API
+const DOWNLOAD_CONCURRENCY = 4;
+
+// Fetch every intrinsic the token unlocks into the offline cache. Entries still
+// within the TTL are kept, so an interrupted download resumes where it stopped.
+async function downloadCatalog(progress: vscode.Progress<{ message?: string; increment?: number }>, token: vscode.CancellationToken) {
+  progress.report({ message: 'Fetching the intrinsic list...' });
+  const [names] = await Promise.all([
+    fetchIntrinsicNames({ force: true }),
+    fetchDatatypesByArch({ force: true })
+  ]);
+  if (!names.length) {
+    throw new Error('Could not fetch the intrinsic list from simd.info');
+  }
+
+  let next = 0;
+  let done = 0;
+  let failed = 0;
+  const worker = async () => {
+    while (next < names.length && !token.isCancellationRequested) {
+      const name = names[next++];
+      if (!(await fetchIntrinsicInfo(name, { waitForRefresh: true }))) {
+        failed++;
+      }
+      done++;
+      progress.report({ message: `${done} / ${names.length} intrinsics`, increment: 100 / names.length });
+    }
+  };
+  await Promise.all(Array.from({ length: DOWNLOAD_CONCURRENCY }, worker));
+  flushOfflineCache();
+
+  return { total: names.length, done, failed };
+}
+
+export function registerDownloadCatalogCommand(context: vscode.ExtensionContext) {
+  const disposable = vscode.commands.registerCommand('code.simd.ai.downloadCatalog', async () => {
+    if (!hasApiToken()) {
+      vscode.window.showErrorMessage('Run "SIMD: Set API Token" first; the catalog downloaded is the one the token unlocks.');
+      return;
+    }
+
+    try {
+      const result = await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: 'Downloading the SIMD intrinsic catalog for offline use',
+        cancellable: true
+      }, downloadCatalog);
+
+      const failedNote = result.failed ? ` (${result.failed} could not be fetched)` : '';
+      if (result.done < result.total) {
+        vscode.window.showInformationMessage(`Download stopped after ${result.done} of ${result.total} intrinsics${failedNote}. Run it again to resume.`);
+      } else {
+        vscode.window.showInformationMessage(`${result.total} intrinsics are available offline${failedNote}.`);
+      }
+    } catch (error: any) {
+      vscode.window.showErrorMessage(`Catalog download failed: ${error.message}`);
+    }
+  });
+
+  context.subscriptions.push(disposable);
+}
@@ -0,0 +1,103 @@
+/*
+* Copyright (c) 2025, VectorCamp PC
+*
+* Licensed under the Apache License, Version 2.0 (the "License");
+* you may not use this file except in compliance with the License.
+* You may obtain a copy of the License at
+*
+*    http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing, software
+* distributed under the License is distributed on an "AS IS" BASIS,
+* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+* See the License for the specific language governing permissions and
+* limitations under the License.
+*/
+
+/**
+ * The simd.info endpoints the extension uses. A self-hosted mirror or a mock
+ * server set as `code.simd.info.apiBaseUrl` has to answer these. Every request
+ * is a GET with `Accept: application/json` and the token as `?api_key=`.
+ *
+ * The API takes the token only as that query parameter; it documents no
+ * header for it. So although the extension keeps the token in SecretStorage,
+ * it still ends up in request URLs, where proxies and server access logs can
+ * record it. Once the API accepts a header, tokenQuery is the one place to
+ * change. Errors and logs from ./httpClient leave the query string out.
+ */
+
+/**
+ * GET /api/intrinsic-names/
+ *
+ * Every intrinsic the token unlocks, as one whitespace separated string:
+ * { "intrinsics": "_mm_add_ps _mm_add_pd vaddq_f32 ..." }
+ */
+export interface IntrinsicNamesResponse {
+  intrinsics: string;
+}
+
+export interface Prototype {
+  key: string;          // Intrinsic name
+  output?: string;      // Return type
+  inputs?: string[];    // Parameter declarations, e.g. "__m128 a"
+  asm?: string;         // Instruction(s) it compiles to, "sequence" when there are several
+  syntax?: string;
+  example?: string;
+  llvm_mca?: any;       // Per-CPU latency/throughput measurements
+  llvm_mca_neon?: any;
+}
+
+export interface Architecture {
+  simd?: string;          // e.g. "NEON"
+  architecture?: string;  // e.g. "armv8"
+  purpose?: string;       // HTML
+  prototypes?: Prototype[];
+  link_to_doc?: string;
+}
+
+/**
+ * GET /api/c_intrinsic/<name>
+ *
+ * One intrinsic, or `null` when the token does not unlock it or it does not
+ * exist. Intrinsics available on several architectures come with
+ * `architectures`; the others have their fields at the top level.
+ */
+export interface TooltipData {
+  name: string;
+  purpose: string;
+  result?: string;
+  simd?: string;
+  notes?: string;
+  engine?: string;
+  link_to_doc?: string;
+  asm?: string;
+  syntax?: string;
+  prototypes?: Prototype[];
+  example?: string;
+  architectures?: Architecture[];
+}
+
+export type IntrinsicInfoResponse = TooltipData | null;
+
+/**
+ * GET /api/datatypes/
+ *
+ * Vector datatypes grouped by architecture:
+ * {
+ *   "NEON": ["uint16x8_t", "float32x8_t"],
+ *   "INTEL": ["__m128h", "__m256h"],
+ *   "POWER": ["vector signed char", "vector bool char"]
+ * }
+ */
+export type DatatypesResponse = Record<string, string[]>;
+
+// How a request carries the API token, see above
+export function tokenQuery(token: string): Record<string, string> {
+  return { api_key: token };
+}
+
+export const ENDPOINTS = {
+  intrinsicNames: () => '/api/intrinsic-names/',
+  intrinsicInfo: (name: string) => `/api/c_intrinsic/${encodeURIComponent(name)}`,
+  datatypes: () => '/api/datatypes/',
+};
@@ -14,24 +14,18 @@
 * limitations under the License.
 */
 
-import fetch from 'node-fetch';
-
 /**
- * Fetch datatypes grouped by architecture.
- *
- * Example response:
- * {
- *   "NEON": ["uint16x8_t", "float32x8_t"],
- *   "INTEL": ["__m128h", "__m256h"],
- *   "POWER": ["vector signed char", "vector bool char"]
- * }
+ * Fetch datatypes grouped by architecture, see DatatypesResponse.
  */
 
-import { API_BASE, getApiToken } from '../config';
+import { getApiBase, getApiToken } from '../config';
 // process.env.NODE_TLS_REJECT_UNAUTHORIZED = '0';
 import * as vscode from 'vscode';
+import { CachedFetchOptions, cachedFetch } from './offlineCache';
+import { apiGet } from './httpClient';
+import { DatatypesResponse, ENDPOINTS, tokenQuery } from './contract';
 
-export async function fetchDatatypesByArch(): Promise<Record<string, string[]>> {
+export async function fetchDatatypesByArch(options: CachedFetchOptions = {}): Promise<DatatypesResponse> {
   const apiKey = getApiToken();
   if (!apiKey) {
     vscode.window.showInformationMessage("⚠️ Please get your API token from https://simd.info");
@@ -39,30 +33,23 @@ export async function fetchDatatypesByArch(): Promise<Record<string, string[]>>
     return {};
   }
 
+  const datatypes = await cachedFetch('catalog', 'datatypes', getApiBase(), apiKey, () => requestDatatypesByArch(apiKey), options);
+  return datatypes || {};
+}
 
+async function requestDatatypesByArch(apiKey: string): Promise<DatatypesResponse | null> {
   try {
-    const url = `${API_BASE}/api/datatypes/?api_key=${apiKey}`;
-
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: { 'Accept': 'application/json' }
-    });
-
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status} ${response.statusText}`);
-    }
-
-    const data = await response.json();
+    const data = await apiGet<DatatypesResponse | null>(ENDPOINTS.datatypes(), tokenQuery(apiKey));
 
     if (!data || typeof data !== 'object') {
       throw new Error('Invalid JSON structure');
     }
 
     // console.log('✅ Datatypes fetched successfully');
-    return data as Record<string, string[]>;
+    return data;
 
   } catch (err) {
     console.error('❌ Failed to fetch datatypes:', err);
-    return {};
+    return null;
   }
 }
\ No newline at end of file
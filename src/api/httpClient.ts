@@ -0,0 +1,166 @@
+/*
+* Copyright (c) 2025, VectorCamp PC
+*
+* Licensed under the Apache License, Version 2.0 (the "License");
+* you may not use this file except in compliance with the License.
+* You may obtain a copy of the License at
+*
+*    http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing, software
+* distributed under the License is distributed on an "AS IS" BASIS,
+* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+* See the License for the specific language governing permissions and
+* limitations under the License.
+*/
+
+import fetch from 'node-fetch';
+import * as http from 'http';
+import * as https from 'https';
+import * as fs from 'fs';
+import { HttpProxyAgent } from 'http-proxy-agent';
+import { HttpsProxyAgent } from 'https-proxy-agent';
+import * as vscode from 'vscode';
+import { getApiBase } from '../config';
+
+export class ApiError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+interface ClientSettings {
+  headers: Record<string, string>;
+  caBundle: string;
+  proxy: string;
+  noProxy: string;
+}
+
+function getClientSettings(): ClientSettings {
+  const config = vscode.workspace.getConfiguration('code.simd.info');
+  const env = process.env;
+  return {
+    headers: config.get<Record<string, string>>('apiHeaders', {}),
+    caBundle: config.get<string>('apiCaBundle', '').trim(),
+    // VS Code's own proxy setting wins over the environment
+    proxy: vscode.workspace.getConfiguration('http').get<string>('proxy', '')
+      || env.HTTPS_PROXY || env.https_proxy || env.HTTP_PROXY || env.http_proxy || '',
+    noProxy: env.NO_PROXY || env.no_proxy || '',
+  };
+}
+
+// NO_PROXY entries are host names or domain suffixes, "*" matches everything
+function bypassesProxy(hostname: string, noProxy: string): boolean {
+  return noProxy.split(',').map(entry => entry.trim().toLowerCase()).filter(Boolean).some(entry => {
+    if (entry === '*') {return true;}
+    const domain = entry.replace(/^\*?\./, '').replace(/:\d+$/, '');
+    return hostname === domain || hostname.endsWith(`.${domain}`);
+  });
+}
+
+// Agents keep connections alive, so one is reused per proxy and CA bundle
+const agents = new Map<string, http.Agent>();
+const caBundles = new Map<string, Buffer>();
+
+function readCaBundle(file: string): Buffer {
+  let ca = caBundles.get(file);
+  if (!ca) {
+    try {
+      ca = fs.readFileSync(file);
+    } catch (err: any) {
+      throw new ApiError(`Cannot read the CA bundle ${file}: ${err.message}`);
+    }
+    caBundles.set(file, ca);
+  }
+  return ca;
+}
+
+function getAgent(url: URL, settings: ClientSettings): http.Agent | undefined {
+  const secure = url.protocol === 'https:';
+  const proxy = settings.proxy && !bypassesProxy(url.hostname.toLowerCase(), settings.noProxy) ? settings.proxy : '';
+  if (!proxy && !(secure && settings.caBundle)) {return undefined;}
+
+  const key = `${url.protocol}|${proxy}|${settings.caBundle}`;
+  let agent = agents.get(key);
+  if (!agent) {
+    const ca = secure && settings.caBundle ? readCaBundle(settings.caBundle) : undefined;
+    if (proxy) {
+      agent = secure
+        ? new HttpsProxyAgent(proxy, { keepAlive: true, ca })
+        : new HttpProxyAgent(proxy, { keepAlive: true });
+    } else {
+      agent = new https.Agent({ keepAlive: true, ca });
+    }
+    agents.set(key, agent);
+  }
+  return agent;
+}
+
+// Requests in flight at once; the rest wait for a free slot in order
+const MAX_CONCURRENT_REQUESTS = 6;
+let activeRequests = 0;
+const waitingRequests: Array<() => void> = [];
+
+async function acquireSlot() {
+  if (activeRequests < MAX_CONCURRENT_REQUESTS) {
+    activeRequests++;
+    return;
+  }
+  // The slot is handed over by releaseSlot, so the count stays as is
+  await new Promise<void>(resolve => waitingRequests.push(resolve));
+}
+
+function releaseSlot() {
+  const next = waitingRequests.shift();
+  if (next) {
+    next();
+  } else {
+    activeRequests--;
+  }
+}
+
+/**
+ * GET an endpoint of the configured API and parse its JSON. Rejects with an
+ * ApiError on a network failure or a non-2xx response; `null` bodies resolve
+ * to null. At most MAX_CONCURRENT_REQUESTS run at once, later calls queue.
+ * See ./contract for what each endpoint returns.
+ */
+export async function apiGet<T>(endpoint: string, query: Record<string, string> = {}): Promise<T> {
+  // Appended rather than resolved, so a base URL with a path prefix keeps it
+  const url = new URL(getApiBase().replace(/\/+$/, '') + endpoint);
+  for (const [name, value] of Object.entries(query)) {
+    url.searchParams.set(name, value);
+  }
+
+  const settings = getClientSettings();
+  await acquireSlot();
+  try {
+    let response;
+    try {
+      response = await fetch(url.toString(), {
+        method: 'GET',
+        headers: { ...settings.headers, 'Accept': 'application/json' },
+        agent: getAgent(url, settings),
+      });
+    } catch (err: any) {
+      // node-fetch quotes the full URL, token included
+      const message = String(err.message).split(url.toString()).join(`${url.origin}${url.pathname}`);
+      throw err instanceof ApiError ? err : new ApiError(`${url.origin}${url.pathname}: ${message}`);
+    }
+
+    if (!response.ok) {
+      throw new ApiError(`${url.origin}${url.pathname}: HTTP ${response.status} ${response.statusText}`, response.status);
+    }
+    return await response.json() as T;
+  } finally {
+    releaseSlot();
+  }
+}
+
+// Settings changes take effect with the next request
+export function resetHttpClient() {
+  agents.forEach(agent => agent.destroy());
+  agents.clear();
+  caBundles.clear();
+}
@@ -0,0 +1,165 @@
+/*
+* Copyright (c) 2025, VectorCamp PC
+*
+* Licensed under the Apache License, Version 2.0 (the "License");
+* you may not use this file except in compliance with the License.
+* You may obtain a copy of the License at
+*
+*    http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing, software
+* distributed under the License is distributed on an "AS IS" BASIS,
+* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+* See the License for the specific language governing permissions and
+* limitations under the License.
+*/
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+
+// Bump when the shape of what is stored changes; older files are then ignored
+const CACHE_VERSION = 1;
+
+const WRITE_DELAY_MS = 2000;
+
+// 'catalog' holds the intrinsic name list and datatypes, 'tooltips' one
+// intrinsic's TooltipData per name
+export type CacheStoreName = 'catalog' | 'tooltips';
+
+interface CacheEntry {
+  fetchedAt: number;
+  data: unknown;
+}
+
+interface CacheFile {
+  version: number;
+  source: string;     // API the entries came from
+  token: string;      // Fingerprint of the token they were fetched with
+  entries: Record<string, CacheEntry>;
+}
+
+class CacheStore {
+  private file: CacheFile | undefined;
+  private writeTimer: NodeJS.Timeout | undefined;
+
+  constructor(private readonly filePath: string) {}
+
+  private load(source: string, token: string): CacheFile {
+    if (!this.file) {
+      try {
+        const parsed = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+        if (parsed?.version === CACHE_VERSION && parsed.entries) {
+          this.file = parsed;
+        }
+      } catch {
+        // Missing or unreadable: start empty
+      }
+      this.file ??= { version: CACHE_VERSION, source, token, entries: {} };
+    }
+    // Another API or token sees other architectures, so nothing carries over
+    if (this.file.source !== source || this.file.token !== token) {
+      this.file = { version: CACHE_VERSION, source, token, entries: {} };
+    }
+    return this.file;
+  }
+
+  get(key: string, source: string, token: string): CacheEntry | undefined {
+    return this.load(source, token).entries[key];
+  }
+
+  set(key: string, data: unknown, source: string, token: string) {
+    this.load(source, token).entries[key] = { fetchedAt: Date.now(), data };
+    if (!this.writeTimer) {
+      this.writeTimer = setTimeout(() => this.flush(), WRITE_DELAY_MS);
+    }
+  }
+
+  flush() {
+    if (this.writeTimer) {
+      clearTimeout(this.writeTimer);
+      this.writeTimer = undefined;
+    }
+    if (!this.file) {return;}
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.writeFileSync(this.filePath, JSON.stringify(this.file));
+    } catch (err) {
+      console.error('Failed to write the offline cache:', err);
+    }
+  }
+}
+
+const stores = new Map<CacheStoreName, CacheStore>();
+const refreshing = new Map<string, Promise<unknown>>();
+
+export function initOfflineCache(context: vscode.ExtensionContext) {
+  const dir = path.join(context.globalStorageUri.fsPath, 'offline-cache');
+  for (const name of ['catalog', 'tooltips'] as CacheStoreName[]) {
+    stores.set(name, new CacheStore(path.join(dir, `${name}.json`)));
+  }
+  context.subscriptions.push({ dispose: () => stores.forEach(store => store.flush()) });
+}
+
+function fingerprint(token: string): string {
+  return createHash('sha256').update(token).digest('hex').slice(0, 16);
+}
+
+function getTtlMs(): number {
+  const hours = vscode.workspace.getConfiguration('code.simd.info').get<number>('offlineCacheTtlHours', 168);
+  return Math.max(0, hours) * 60 * 60 * 1000;
+}
+
+export interface CachedFetchOptions {
+  force?: boolean;          // Fetch even when a fresh entry is cached
+  waitForRefresh?: boolean; // Wait for a stale entry to be refetched instead of returning it
+}
+
+// Stale-while-revalidate over the API: a fresh entry is returned as-is, a stale
+// one is returned at once while it is refetched in the background, and only a
+// missing entry waits for the network. `fetcher` resolves to null when the API
+// could not be reached or had no data, which never replaces a cached entry.
+export async function cachedFetch<T>(
+  storeName: CacheStoreName,
+  key: string,
+  source: string,
+  token: string,
+  fetcher: () => Promise<T | null>,
+  options: CachedFetchOptions = {}
+): Promise<T | null> {
+  const store = stores.get(storeName);
+  if (!store) {return fetcher();}   // Not initialized, e.g. in tests
+
+  const tokenId = fingerprint(token);
+  const refreshKey = `${storeName}|${key}`;
+  const refresh = (): Promise<T | null> => {
+    let pending = refreshing.get(refreshKey) as Promise<T | null> | undefined;
+    if (!pending) {
+      pending = fetcher()
+        .then(data => {
+          if (data !== null) {
+            store.set(key, data, source, tokenId);
+          }
+          return data;
+        })
+        .finally(() => refreshing.delete(refreshKey));
+      refreshing.set(refreshKey, pending);
+    }
+    return pending;
+  };
+
+  const cached = store.get(key, source, tokenId);
+  const stale = !!cached && Date.now() - cached.fetchedAt > getTtlMs();
+  if (!cached || options.force || (stale && options.waitForRefresh)) {
+    return (await refresh()) ?? (cached?.data as T | undefined) ?? null;
+  }
+  if (stale) {
+    refresh().catch(err => console.warn(`Background refresh of ${key} failed:`, err));
+  }
+  return cached.data as T;
+}
+
+export function flushOfflineCache() {
+  stores.forEach(store => store.flush());
+}
@@ -16,8 +16,11 @@
 
 import { get } from 'http';
 import { getApiToken } from '../config';
-import { API_BASE, MODEL_NAME , PLUGIN_DEFAULT_TOKEN } from '../config';
+import { getApiBase, MODEL_NAME , PLUGIN_DEFAULT_TOKEN } from '../config';
 import * as vscode from 'vscode';
+import { CachedFetchOptions, cachedFetch } from './offlineCache';
+import { apiGet } from './httpClient';
+import { ENDPOINTS, IntrinsicInfoResponse, IntrinsicNamesResponse, TooltipData, tokenQuery } from './contract';
 
 export async function callSimdAiWithHistory(messages: { role: string; content: string }[]): Promise<string> {
   await new Promise(r => setTimeout(r, 10)); // small async delay
@@ -26,7 +29,12 @@ export async function callSimdAiWithHistory(messages: { role: string; content: s
 
 let cachedIntrinsics: string[] | null = null;
 
-export async function fetchIntrinsicNames(): Promise<string[]> {
+// Forget the session's list, e.g. when the token changes
+export function resetIntrinsicNames() {
+  cachedIntrinsics = null;
+}
+
+export async function fetchIntrinsicNames(options: CachedFetchOptions = {}): Promise<string[]> {
   let apiToken = getApiToken();
 
   // if user has not specified api token, use predifined to only see Intel intrinsics and some Preview, disabled for now
@@ -35,25 +43,22 @@ export async function fetchIntrinsicNames(): Promise<string[]> {
     apiToken = PLUGIN_DEFAULT_TOKEN;
   }
 
-  if (cachedIntrinsics) {
+  if (cachedIntrinsics && !options.force) {
     return cachedIntrinsics; // return from cache if available
   }
 
-  try {
-    const url = `${API_BASE}/api/intrinsic-names/?api_key=${apiToken}`;
-
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: { 'Accept': 'application/json' }
-    });
-
-
-    if (!response.ok) {
-      console.error('Failed to fetch intrinsic names:', response.statusText);
-      return [];
-    }
+  const token = apiToken;
+  const names = await cachedFetch('catalog', 'intrinsic-names', getApiBase(), token, () => requestIntrinsicNames(token), options);
+  if (names?.length) {
+    cachedIntrinsics = names;
+  }
+  return names || [];
+}
 
-    const json = await response.json();
+// null when the API could not be reached or answered with something unexpected
+async function requestIntrinsicNames(apiToken: string): Promise<string[] | null> {
+  try {
+    const json = await apiGet<IntrinsicNamesResponse>(ENDPOINTS.intrinsicNames(), tokenQuery(apiToken));
     
     // Access the nested structure
     if (
@@ -63,20 +68,18 @@ export async function fetchIntrinsicNames(): Promise<string[]> {
         typeof json.intrinsics === "string"
     ) {
       const text = json.intrinsics;
-        cachedIntrinsics = text
+        return text
           .split(/\s+/)
           .map((s: string) => s.trim())
           .filter(Boolean);
-        
-        return cachedIntrinsics || [];
     }
 
     console.error('Unexpected response structure:', json);
-    return [];
+    return null;
     
   } catch (err) {
     console.error('Error fetching intrinsic names:', err);
-    return [];
+    return null;
   }
 }
 export async function sendToSimdAI(userPrompt: string) {
@@ -84,36 +87,7 @@ export async function sendToSimdAI(userPrompt: string) {
   return "Simd.ai is currently under development. Coming soon!";
 }
 
-interface Prototype {
-  key: string;
-  output?: string;
-  inputs?: string[];
-  asm?: string;
-  example?: string;
-}
-
-interface TooltipData {
-  name: string;
-  purpose: string;
-  result?: string;
-  simd?: string;
-  notes?: string;
-  engine?: string;
-  link_to_doc?: string;
-  asm?: string; 
-  prototypes?: Prototype[];
-  example?: string;   
-  architectures?: Architecture[]; 
-}
-interface Architecture {
-  simd?: string;
-  architecture?: string;
-  purpose?: string;
-  prototypes?: Prototype[];
-  link_to_doc?: string;
-}
-
-export async function fetchIntrinsicInfo(word: string): Promise<TooltipData | null> {
+export async function fetchIntrinsicInfo(word: string, options: CachedFetchOptions = {}): Promise<TooltipData | null> {
   let apiToken = getApiToken();
 
   // if user has not specified api token, use predifined to only see Intel intrinsics
@@ -121,22 +95,14 @@ export async function fetchIntrinsicInfo(word: string): Promise<TooltipData | nu
     vscode.window.showInformationMessage("⚠️ Please get your API token from https://simd.info");
     apiToken = PLUGIN_DEFAULT_TOKEN;
   }
-  
-  try {
-    const encoded = encodeURIComponent(word);
-    const url = `${API_BASE}/api/c_intrinsic/${encoded}?api_key=${apiToken}`;
 
-    const response = await fetch(url, {
-      method: "GET",
-      headers: { "Accept": "application/json" }
-    });
-
-    if (!response.ok) {
-      console.error(`Failed to fetch intrinsic for "${word}":`, response.status, response.statusText);
-      return null;
-    }
+  const token = apiToken;
+  return cachedFetch('tooltips', word, getApiBase(), token, () => requestIntrinsicInfo(word, token), options);
+}
 
-    const data = await response.json();
+async function requestIntrinsicInfo(word: string, apiToken: string): Promise<TooltipData | null> {
+  try {
+    const data = await apiGet<IntrinsicInfoResponse>(ENDPOINTS.intrinsicInfo(word), tokenQuery(apiToken));
 
     // backend returns null when intrinsic not found (your design)
     if (!data || typeof data !== "object") {
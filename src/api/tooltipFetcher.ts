@@ -23,10 +23,20 @@ if (!(globalThis as any).fetch) {
 import * as vscode from 'vscode';
 import { fetchIntrinsicInfo } from './simdAi';
 // process.env.NODE_TLS_REJECT_UNAUTHORIZED = '0'; // Dev only — allow self-signed certs
-import { simdFullData } from '../intrinsicsCache';
+import { recordPrototypeAsm, simdFullData } from '../intrinsicsCache';
 
 
 const tooltipCache: Record<string, vscode.MarkdownString> = {};
+// Lookups still running, so concurrent hovers for one word share a request
+const pendingTooltips = new Map<string, Promise<vscode.MarkdownString>>();
+
+// A new token can unlock more of an intrinsic's architectures
+export function clearTooltipCache() {
+  for (const word of Object.keys(tooltipCache)) {
+    delete tooltipCache[word];
+  }
+  pendingTooltips.clear();
+}
 
 function normalizeProto(proto: any, archOrData: any) {
   return {
@@ -38,9 +48,18 @@ function normalizeProto(proto: any, archOrData: any) {
   };
 }
 
-export async function fetchTooltip(word: string): Promise<vscode.MarkdownString> {
-  if (tooltipCache[word]) {return tooltipCache[word];}
+export function fetchTooltip(word: string): Promise<vscode.MarkdownString> {
+  if (tooltipCache[word]) {return Promise.resolve(tooltipCache[word]);}
+
+  let pending = pendingTooltips.get(word);
+  if (!pending) {
+    pending = buildTooltip(word).finally(() => pendingTooltips.delete(word));
+    pendingTooltips.set(word, pending);
+  }
+  return pending;
+}
 
+async function buildTooltip(word: string): Promise<vscode.MarkdownString> {
   try {
     const data = await fetchIntrinsicInfo(word);
     if (!data) {
@@ -73,6 +92,7 @@ export async function fetchTooltip(word: string): Promise<vscode.MarkdownString>
             md.appendMarkdown('```c\n' + line + '\n```\n');
 
             const normalizedProto = normalizeProto(proto, arch); 
+            recordPrototypeAsm(normalizedProto.key, normalizedProto.asm);
             addViewPerformanceData(md, normalizedProto, simd);
           }
         }
@@ -100,6 +120,7 @@ export async function fetchTooltip(word: string): Promise<vscode.MarkdownString>
           md.appendMarkdown('```c\n' + line + '\n```\n');
           
           const normalizedProto = normalizeProto(proto, data);  
+          recordPrototypeAsm(normalizedProto.key, normalizedProto.asm);
           addViewPerformanceData(md, normalizedProto, data.simd || data.engine);
         }
       }
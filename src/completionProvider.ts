@@ -4,7 +4,7 @@ import { fetchTooltip } from './api/tooltipFetcher';
 
 let intrinsics: string[] = [];
 
-export async function activate(context: vscode.ExtensionContext) {
+export async function reloadCompletionIntrinsics() {
   try {
     intrinsics = await getIntrinsics();
     intrinsics.sort(); // required for binary search
@@ -12,6 +12,10 @@ export async function activate(context: vscode.ExtensionContext) {
     console.error('Failed to fetch intrinsics:', err);
     intrinsics = [];
   }
+}
+
+export async function activate(context: vscode.ExtensionContext) {
+  await reloadCompletionIntrinsics();
 
   const languages = ['rust', 'c', 'cpp'];
 
@@ -15,13 +15,27 @@
 */
 import * as vscode from 'vscode';
 
+// Loaded from SecretStorage by initApiToken, which keeps it current
+let apiToken: string | undefined;
+let reportedMissing = false;
+
 export function getApiToken(): string | undefined {
-  const config = vscode.workspace.getConfiguration('code.simd.info');
-  const token = config.get<string>('apiToken');
-  if (!token) {
-    vscode.window.showErrorMessage('API token missing. Please set "code.simd.info.apiToken" in your settings.');
+  if (!apiToken && !reportedMissing) {
+    // Once per session rather than once per request
+    reportedMissing = true;
+    vscode.window.showErrorMessage('API token missing. Run "SIMD: Set API Token" to set it.');
   }
-  return token;
+  return apiToken;
+}
+
+// Without the missing-token error getApiToken shows
+export function hasApiToken(): boolean {
+  return !!apiToken;
+}
+
+export function setApiTokenValue(token: string | undefined) {
+  apiToken = token;
+  reportedMissing = false;
 }
 
 // import * as dotenv from 'dotenv';
@@ -31,5 +45,11 @@ export function getApiToken(): string | undefined {
 
 // export const PLUGIN_DEFAULT_TOKEN = 'sk-b5204816b07e49ec8096c9e8b34f28bb'; // 'get your token from simd.ai';
 export const PLUGIN_DEFAULT_TOKEN = 'Ur2FOtUe8k6o8mlWMSJMa6gWZV3_v_F0Cm8yuKiK5H6njUAW5tO-vVLSrSWJpuvg'; // 'get your token from simd.info';
-export const API_BASE = 'https://simd.info';
+export const DEFAULT_API_BASE = 'https://simd.info';
+
+// The simd.info API, or a self-hosted mirror or mock server set in the settings
+export function getApiBase(): string {
+  const configured = vscode.workspace.getConfiguration('code.simd.info').get<string>('apiBaseUrl', '').trim();
+  return configured || DEFAULT_API_BASE;
+}
 export const MODEL_NAME = 'SIMD-ai-2506.1.ai:24b';
@@ -23,16 +23,33 @@ import { translationState, clearState } from './translation/state';
 import { registerTranslateCommand } from './translation/translator';
 import { registerAcceptRejectCommands, registerEditSIMDCommand } from './translation/commands';
 import { TranslationCodeLensProvider } from './translation/codelens';
-import { highlightIntrinsicsAndDatatypes, initIntrinsicHighlighting, deactivateHighlighting, cycleHighlightMode } from './syntaxHighlighting';
-import { activate as activateCompletion } from './completionProvider';
+import { highlightIntrinsicsAndDatatypes, initIntrinsicHighlighting, deactivateHighlighting, cycleHighlightMode, reloadIntrinsicHighlighting } from './syntaxHighlighting';
+import { activate as activateCompletion, reloadCompletionIntrinsics } from './completionProvider';
 
 import { registerShowPerformanceGraphCommand } from './showPerformanceGraph';
 import { registerLlvmMcaCommand } from './llvmMcaAnalyzer';
+import { initOfflineCache } from './api/offlineCache';
+import { registerDownloadCatalogCommand } from './api/catalogDownload';
+import { resetHttpClient } from './api/httpClient';
+import { initApiToken, onDidChangeApiToken } from './api/apiToken';
+import { resetIntrinsics } from './intrinsicsCache';
+import { clearTooltipCache } from './api/tooltipFetcher';
 
 
-export function activate(context: vscode.ExtensionContext) {
+export async function activate(context: vscode.ExtensionContext) {
 
 	console.log('Extension "code.simd.info" is now active!');
+
+	// Before anything asks the API, so offline sessions are served from disk
+	initOfflineCache(context);
+	await initApiToken(context);
+
+	// A new token unlocks other intrinsics: fetch them and re-highlight without a reload
+	context.subscriptions.push(onDidChangeApiToken(async () => {
+		resetIntrinsics();
+		clearTooltipCache();
+		await Promise.all([reloadIntrinsicHighlighting(), reloadCompletionIntrinsics()]);
+	}));
 	
 	const enableLLVM = vscode.workspace.getConfiguration('code.simd.info').get<boolean>('enableLLVM', false);
 
@@ -43,6 +60,9 @@ export function activate(context: vscode.ExtensionContext) {
             const updated = vscode.workspace.getConfiguration('code.simd.info').get<boolean>('enableLLVM', false);
             vscode.commands.executeCommand('setContext', 'code.simd.info.enableLLVM', updated);
         }
+        if (e.affectsConfiguration('code.simd.info.apiCaBundle') || e.affectsConfiguration('http.proxy')) {
+            resetHttpClient();
+        }
     });
 
 	context.subscriptions.push(
@@ -61,6 +81,7 @@ export function activate(context: vscode.ExtensionContext) {
 	activateCompletion(context);
 	
 	registerShowPerformanceGraphCommand(context);
+	registerDownloadCatalogCommand(context);
 
 	registerLlvmMcaCommand(context);
 }
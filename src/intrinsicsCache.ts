@@ -1,4 +1,4 @@
-import { fetchIntrinsicNames } from './api/simdAi';
+import { fetchIntrinsicNames, resetIntrinsicNames } from './api/simdAi';
 
 let intrinsics: string[] | null = null;
 
@@ -14,6 +14,12 @@ export async function getIntrinsics(): Promise<string[]> {
   return intrinsics;
 }
 
+// The next getIntrinsics() fetches the list again, for the current token
+export function resetIntrinsics() {
+  intrinsics = null;
+  resetIntrinsicNames();
+}
+
 export interface SimdPrototype {
   key: string;
   inputs?: string[];
@@ -33,4 +39,26 @@ export interface SimdFullEntry {
   prototypes: SimdPrototype[];
 }
 
-export const simdFullData: Record<string, SimdFullEntry> = {};
\ No newline at end of file
+export const simdFullData: Record<string, SimdFullEntry> = {};
+
+// Instruction mnemonic (lowercase) -> intrinsics whose prototype `asm` uses it,
+// filled in as intrinsic info is fetched
+export const asmMnemonicIndex: Record<string, Set<string>> = {};
+
+// "vpshufb ymm, ymm, ymm" or "TBL Vd.16B,{Vn.16B},Vm.16B", one instruction per line
+export function recordPrototypeAsm(key: string, asm?: string) {
+  if (!asm) {return;}
+  for (const line of asm.split(/\n|<br\s*\/?>|;/)) {
+    const mnemonic = line.trim().split(/\s+/)[0]?.toLowerCase();
+    if (!mnemonic || !/^[a-z][\w.]*$/.test(mnemonic) || mnemonic === 'sequence' || mnemonic === 'n/a') {continue;}
+    (asmMnemonicIndex[mnemonic] ??= new Set()).add(key);
+  }
+}
+
+// Intrinsics documented to compile to the mnemonic. x86 VEX forms such as
+// vpshufb also match the legacy SSE prototype (pshufb).
+export function getIntrinsicsForMnemonic(mnemonic: string): string[] {
+  const m = mnemonic.toLowerCase();
+  const found = asmMnemonicIndex[m] ?? (m.startsWith('v') ? asmMnemonicIndex[m.slice(1)] : undefined);
+  return found ? [...found].sort() : [];
+}
@@ -19,108 +19,31 @@ import { promisify } from 'util';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as os from 'os';
+import { getCompilerExecutable, getHostCpu, getRegisteredTargets, getToolchainSettings, ToolchainSettings } from './mca/toolchain';
+import { findUnknownGccCpu, getCompilerVersion, hasInlineCallSites, getCpuFlags, getCrossFlags, getLineTableFlags } from './mca/compilers';
+import { formatCommand, McaCancelledError, ProcessError, ProcessOptions, ProcessOutput, runProcess } from './mca/process';
+import { CpuConfig, InheritedFlags, McaRegion, McaResults, McaSnippet } from './mca/types';
+import { resolveFileSnippet, resolveMcaSnippet } from './mca/snippet';
+import { McaCompileError, McaDiagnostics, mapDiagnosticPositions, parseClangDiagnostics } from './mca/diagnostics';
+import { parseRegions } from './mca/reportParser';
+import { REPORT_VIEW_STYLES, renderBottlenecks, renderResourcePressure, renderSpills, renderTimeline } from './mca/reportViews';
+import { escapeHtml } from './utils/html';
+import { getMnemonicIntrinsics, showIntrinsicDocs } from './mca/intrinsicDocs';
+import { CpuRun, getCompareWebviewContent } from './mca/compare';
+import { mapInstructionsToSource, stripDebugInfo, decorateSourceLines } from './mca/sourceMap';
+import { InstrumentedCode, getAsmCommentPrefix, instrumentRegions, registerMarkRegionCommand, toOriginalPosition, uniqueRegionNames } from './mca/regions';
+import { McaHistory, McaHistoryEntry, formatRunTime } from './mca/history';
+import { getDiffWebviewContent } from './mca/diff';
+import { exportMcaRun } from './mca/export';
+import { McaCodeLensProvider, McaEstimateTarget } from './mca/codelens';
+import { DefaultCpuStatusBar, saveDefaultCpu } from './mca/defaultCpu';
+import { ARCH_SUPPORT, CpuCatalog, getCpuCatalog, initCpuCatalog } from './mca/cpuCatalog';
+import { getInheritedFlags } from './mca/compileCommands';
+import { SpillDiagnostics, findStackSpills } from './mca/spills';
+import { OptimizationRemark, RemarkDiagnostics, getRemarkFlags, parseOptimizationRemarks } from './mca/remarks';
 
 const execAsync = promisify(exec);
 
-const X86_CPUS = {
-    "AVX512": [
-        "cascadelake", "cannonlake", "cooperlake", "icelake-server", "icelake-client",
-        "tigerlake", "rocketlake", "sapphirerapids", "emeraldrapids", "graniterapids",
-        "graniterapids-d", "diamondrapids", "znver4", "znver5", "znver6",
-    ],
-    "AVX2": [
-        "haswell", "core-avx2", "broadwell", "skylake", "alderlake", "raptorlake", 
-        "meteorlake", "gracemont", "arrowlake", "arrowlake-s", "lunarlake", 
-        "pantherlake", "wildcatlake", "novalake", "sierraforest", "grandridge", 
-        "clearwaterforest", "bdver4", "znver1", "znver2", "znver3"
-    ],
-    "AVX": [
-        "sandybridge", "corei7-avx", "ivybridge", "core-avx-i", "bdver1", 
-        "bdver2", "bdver3", "lujiazui"
-    ],
-    "SSE": [
-        "x86-64", "x86-64-v2", "x86-64-v3", "x86-64-v4", "pentium3m", "pentium-m",
-        "pentium4", "pentium4m", "prescott", "nocona", "core2", "nehalem", 
-        "corei7", "westmere", "bonnell", "atom", "silvermont", "slm", "goldmont",
-        "goldmont-plus", "tremont", "athlon", "athlon-tbird", "athlon-4", 
-        "athlon-xp", "athlon-mp", "k8", "opteron", "athlon64", "athlon-fx",
-        "k8-sse3", "opteron-sse3", "athlon64-sse3", "amdfam10", "barcelona",
-        "btver1", "btver2", "c3-2", "c7", "nehemiah", "esther", "eden-x2",
-        "nano", "nano-1000", "nano-2000", "nano-3000", "nano-x2", "nano-x4"
-    ],
-};
-
-const ARM_CPUS = {
-    "A32": ["cortex-a17", "cortex-a53"],
-    "A64": [
-        "cortex-a55", "cortex-a72", "cortex-a73", "cortex-a75", "cortex-a76",
-        "cortex-a77", "cortex-a78", "cortex-x1", "cortex-x2", "cortex-x3",
-        "cortex-a710", "cortex-a715", "neoverse-n1", "neoverse-n2", 
-        "neoverse-v1", "neoverse-v2", "ampere1", "ampere1a", "ampere1b",
-    ],
-    "v7": ["cortex-a9", "cortex-a15"],
-};
-
-const POWER_CPUS = ["pwr8", "pwr9", "pwr10"];
-
-interface CpuConfig {
-    label: string;
-    category: string;
-    target?: string;
-    mcpu?: string;
-    march?: string;
-    useNative?: boolean;
-}
-
-function generateCpuConfigs(): { [key: string]: CpuConfig } {
-    const configs: { [key: string]: CpuConfig } = {};
-    
-    // Add native option
-    configs['native'] = {
-        label: 'Native (Auto-detect)',
-        category: 'Native',
-        useNative: true
-    };
-    
-    // x86 CPUs - use -march instead of -mcpu
-    for (const [category, cpus] of Object.entries(X86_CPUS)) {
-        for (const cpu of cpus) {
-            configs[`x86-${cpu}`] = {
-                label: `${cpu}`,
-                category: `x86-64 ${category}`,
-                march: cpu,
-                mcpu: cpu  // For MCA
-            };
-        }
-    }
-    
-    // ARM CPUs - use -mcpu
-    for (const [category, cpus] of Object.entries(ARM_CPUS)) {
-        for (const cpu of cpus) {
-            configs[`arm-${cpu}`] = {
-                label: `${cpu}`,
-                category: `ARM ${category}`,
-                target: 'aarch64-linux-gnu',
-                mcpu: cpu
-            };
-        }
-    }
-    
-    // PowerPC CPUs - use -mcpu
-    for (const cpu of POWER_CPUS) {
-        configs[`power-${cpu}`] = {
-            label: `${cpu}`,
-            category: 'PowerPC',
-            target: 'powerpc64le-linux-gnu',
-            mcpu: cpu
-        };
-    }
-    
-    return configs;
-}
-
-const CPU_CONFIGS = generateCpuConfigs();
-
 // Detect host architecture
 async function getHostArch(): Promise<string> {
     try {
@@ -138,75 +61,111 @@ async function getHostArch(): Promise<string> {
     }
 }
 
-function isCompatibleTarget(hostArch: string, targetConfig: CpuConfig): boolean {
+// Map `uname -m` / os.arch() names to registered LLVM target names
+function toLlvmTarget(hostArch: string): string {
+    if (hostArch.includes('x86_64') || hostArch.includes('amd64') || hostArch === 'x64') {
+        return 'x86-64';
+    } else if (hostArch.includes('aarch64') || hostArch.includes('arm64')) {
+        return 'aarch64';
+    } else if (hostArch.startsWith('arm')) {
+        return 'arm';
+    } else if (hostArch.includes('ppc64le') || hostArch.includes('powerpc64le')) {
+        return 'ppc64le';
+    } else if (hostArch.startsWith('riscv64')) {
+        return 'riscv64';
+    } else if (hostArch.startsWith('loongarch64')) {
+        return 'loongarch64';
+    } else if (hostArch === 's390x') {
+        return 'systemz';
+    }
+    return hostArch;
+}
+
+// CPU targets of the given toolchain, keyed like "x86-skylake"
+async function getCpuConfigs(toolchain: ToolchainSettings): Promise<CpuCatalog> {
+    return getCpuCatalog(toolchain, toLlvmTarget(await getHostArch()));
+}
+
+function isCrossTarget(hostArch: string, targetConfig: CpuConfig): boolean {
+    if (targetConfig.useNative || !targetConfig.llvmTarget) {return false;}
+    return targetConfig.llvmTarget !== toLlvmTarget(hostArch);
+}
+
+function isCompatibleTarget(hostArch: string, targetConfig: CpuConfig, registeredTargets: Set<string> | null): boolean {
     // Native is always compatible
     if (targetConfig.useNative) {return true;}
-    
-    // Check if host can compile for target
-    if (hostArch.includes('x86_64') || hostArch.includes('amd64')) {
-        // x86 host can only compile x86 targets
-        return !targetConfig.target || targetConfig.target === '';
-    } else if (hostArch.includes('aarch64') || hostArch.includes('arm64')) {
-        // ARM host can compile ARM targets natively
-        return !targetConfig.target || targetConfig.target.includes('aarch64');
-    } else if (hostArch.includes('ppc64') || hostArch.includes('powerpc')) {
-        // PowerPC host
-        return !targetConfig.target || targetConfig.target.includes('powerpc');
+
+    // Host targets never need a cross toolchain
+    if (!isCrossTarget(hostArch, targetConfig)) {return true;}
+
+    // Anything else is offered when the compiler and llvm-mca were both built for it
+    return !!registeredTargets && !!targetConfig.llvmTarget && registeredTargets.has(targetConfig.llvmTarget);
+}
+
+// Drop the temp dir so the command can be copied and re-run next to the files
+function toDisplayCommand(command: string, args: string[], tmpDir: string): string {
+    return formatCommand(command, args.map(arg => arg.split(tmpDir + path.sep).join('')));
+}
+
+function sumRegionMetric(regions: McaRegion[], metric: (region: McaRegion) => string): string {
+    const values = regions.map(r => parseFloat(metric(r)));
+    if (!values.length || values.some(isNaN)) {
+        return regions.length === 1 ? metric(regions[0]) : 'N/A';
     }
-    
-    // By default, only allow native compilation
-    return !targetConfig.target;
+    return String(Math.round(values.reduce((a, b) => a + b, 0) * 100) / 100);
 }
 
-interface McaResults {
-    latency: string;
-    throughput: string;
-    fullReport: string;
-    assembly: string;
-    cpuTarget: string;
-    instructions: Array<{
-        order: number;
-        uops: string;
-        latency: string;
-        throughput: string;
-        instruction: string;
-    }>;
+// llvm-mca silently uses a generic scheduling model for CPUs it does not know,
+// which makes every number in the report an approximation.
+function getSchedulingModelWarnings(stderr: string, cpu: string | null | undefined): string[] {
+    const unknown = stderr.match(/'([^']+)' is not a recognized processor/);
+    if (unknown) {
+        return [`llvm-mca has no scheduling model for "${unknown[1]}" and fell back to a generic CPU model; cycle counts are only approximate.`];
+    }
+    if (cpu === 'generic') {
+        return ['llvm-mca could not identify the host CPU and used a generic CPU model; cycle counts are only approximate.'];
+    }
+    return [];
 }
 
-async function analyzeMca(codeText: string, cpuKey: string): Promise<McaResults> {
-    console.log('Starting MCA analysis...');
-    
-    const config = CPU_CONFIGS[cpuKey];
-    if (!config) {
-        throw new Error(`Unknown CPU: ${cpuKey}`);
+interface CompileSetup {
+    compiler: string;
+    llvmTarget: string;
+    isCrossCompile: boolean;
+    headers: string;            // Generated lines placed before the snippet's code
+    compileFlags: string[];
+    inheritedFlags?: InheritedFlags;
+}
+
+// Compiler, generated headers and target flags for compiling the snippet for a CPU
+async function prepareCompile(snippet: McaSnippet, config: CpuConfig, toolchain: ToolchainSettings): Promise<CompileSetup> {
+    let headers = "";
+    let compileFlags: string[] = [];
+
+    const hostArch = await getHostArch();
+    const isCrossCompile = isCrossTarget(hostArch, config);
+    const llvmTarget = config.llvmTarget || toLlvmTarget(hostArch);
+
+    const compiler = getCompilerExecutable(toolchain, llvmTarget, isCrossCompile);
+    if (!compiler) {
+        throw new Error(`No ${toolchain.compiler} cross compiler is known for ${llvmTarget}`);
     }
-    
-    const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'llvm-mca-'));
-    console.log('Temp dir:', tmpDir);
-    
-    const cFile = path.join(tmpDir, 'input.cpp');
-    const asmFile = path.join(tmpDir, 'output.s');
 
-    try {
-        let headers = "";
-        let compileFlags: string[] = [];
-        
-        const isCrossCompile = config.target && config.target !== 'native';
+    if (isCrossCompile) {
+        // No target sysroot is installed for clang, so only its builtin headers
+        // (stddef.h, stdint.h, arm_neon.h, altivec.h, ...) are usable.
+        compileFlags.push(...getCrossFlags(toolchain.compiler, config));
+    }
 
-        if (isCrossCompile) {
-            compileFlags.push('-ffreestanding');
-            compileFlags.push('-nostdlibinc');
-        } else {
-            headers += `#include <stddef.h>\n#include <stdint.h>\n`;
-        }
+    // Architecture specific headers
+    const arch = ARCH_SUPPORT[llvmTarget] || ARCH_SUPPORT['x86-64'];
+    compileFlags.push(...(arch.features || []));
 
-        // Architecture specific headers
-        if (config.target?.includes('aarch64')) {
-            headers += '#include <arm_neon.h>\n';
-        } else if (config.target?.includes('powerpc')) {
-            headers += '#include <altivec.h>\n';
-        } else {
-            headers += '#include <immintrin.h>\n';
+    // A whole file brings its own includes and typedefs
+    if (!snippet.standalone) {
+        headers += `#include <stddef.h>\n#include <stdint.h>\n`;
+        for (const header of config.headers || arch.headers) {
+            headers += `#include <${header}>\n`;
         }
 
         headers += `
@@ -221,80 +180,275 @@ typedef unsigned short ushort;
 #endif
 `;
 
-        const codeToCompile = headers + codeText;
+        headers += snippet.prelude || '';
+    }
+    for (const dir of snippet.includeDirs || []) {
+        compileFlags.push(`-I${dir}`);
+    }
+
+    // The project's own -I/-D/-std; its -m feature flags only fit its own architecture
+    const inheritedFlags = snippet.sourceFile ? await getInheritedFlags(snippet.sourceFile, !isCrossCompile) : undefined;
+    compileFlags.push(...(inheritedFlags?.flags || []));
+
+    return { compiler, llvmTarget, isCrossCompile, headers, compileFlags, inheritedFlags };
+}
+
+// Run the compiler, turning errors in the compiled file into an McaCompileError.
+// Positions in code with region markers inserted are moved back onto the snippet.
+async function runCompiler(
+    compiler: string,
+    args: string[],
+    sourceFile: string,
+    headerLines: number,
+    toolchain: ToolchainSettings,
+    options: ProcessOptions,
+    instrumented?: InstrumentedCode
+): Promise<ProcessOutput> {
+    console.log('Running:', formatCommand(compiler, args));
+    try {
+        return await runProcess(compiler, args, options);
+    } catch (error: any) {
+        if (!(error instanceof ProcessError)) {throw error;}
+        const unknownCpu = toolchain.compiler === 'gcc' ? findUnknownGccCpu(error.stderr) : undefined;
+        if (unknownCpu) {
+            throw new Error(`GCC does not know the CPU "${unknownCpu}". Choose another CPU, or set code.simd.info.compiler to clang.`);
+        }
+        let diagnostics = parseClangDiagnostics(error.stderr, path.basename(sourceFile), headerLines);
+        if (instrumented) {
+            diagnostics = mapDiagnosticPositions(diagnostics, position => toOriginalPosition(instrumented, position));
+        }
+        const errorCount = diagnostics.filter(d => d.severity === 'error').length;
+        if (errorCount) {
+            throw new McaCompileError(`Compilation failed with ${errorCount} error(s), see the Problems panel`, diagnostics, toolchain.compiler);
+        }
+        throw error;
+    }
+}
+
+async function analyzeMca(
+    snippet: McaSnippet,
+    cpuKey: string,
+    toolchain: ToolchainSettings,
+    token?: vscode.CancellationToken
+): Promise<McaResults> {
+    console.log('Starting MCA analysis...');
+    
+    const config = (await getCpuConfigs(toolchain))[cpuKey];
+    if (!config) {
+        throw new Error(`Unknown CPU: ${cpuKey}`);
+    }
+    
+    const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'llvm-mca-'));
+    console.log('Temp dir:', tmpDir);
+    
+    const cFile = path.join(tmpDir, 'input.cpp');
+    const asmFile = path.join(tmpDir, 'output.s');
+
+    try {
+        const { compiler, llvmTarget, isCrossCompile, headers, compileFlags, inheritedFlags } = await prepareCompile(snippet, config, toolchain);
+
+        // Region markers replace or wrap code on the same line, so line numbers still match
+        const instrumented = instrumentRegions(snippet.code, toolchain.regionMode, getAsmCommentPrefix(llvmTarget));
+
+        const codeToCompile = headers + instrumented.code + (snippet.epilogue || '');
+        const headerLines = headers.split('\n').length - 1;
 
         await fs.writeFile(cFile, codeToCompile);
         console.log('Written C++ file with headers');
 
-        // Build clang command
-        const targetFlag = config.target ? `--target=${config.target}` : '';
-        const compileFlagsStr = compileFlags.join(' ');
-        
-        let cpuFlag = '';
-        if (config.useNative) {
-            cpuFlag = '-march=native';
-        } else if (config.march) {
-            // x86 uses -march
-            cpuFlag = `-march=${config.march}`;
-        } else if (config.mcpu) {
-            // ARM and PowerPC use -mcpu
-            cpuFlag = `-mcpu=${config.mcpu}`;
-        }
-        
-        const clangCmd = `clang -S -O2 ${targetFlag} ${cpuFlag} ${compileFlagsStr} -o ${asmFile} ${cFile}`;
-        console.log('Running:', clangCmd);
-        await execAsync(clangCmd);
+        const processOptions = { token, timeoutMs: toolchain.timeoutSeconds * 1000 };
+
+        // Line tables let us map instructions back to the snippet via .loc
+        const compileArgs = [
+            '-S', `-${toolchain.optimizationLevel}`,
+            ...getLineTableFlags(toolchain.compiler),
+            '-fdiagnostics-parseable-fixits',
+            ...getCpuFlags(toolchain.compiler, config, llvmTarget),
+            ...compileFlags,
+            ...toolchain.extraCompilerFlags,
+            '-o', asmFile, cFile
+        ];
+        await runCompiler(compiler, compileArgs, cFile, headerLines, toolchain, processOptions, instrumented);
+
+        // Inlining can emit a region twice; llvm-mca and the source maps need one name per copy
+        const rawAsm = uniqueRegionNames(await fs.readFile(asmFile, 'utf-8'));
+        const inheritHeaderLines = hasInlineCallSites(toolchain.compiler);
+        const sourceMaps = mapInstructionsToSource(rawAsm, path.basename(cFile), headerLines, inheritHeaderLines);
+        const spills = findStackSpills(rawAsm, path.basename(cFile), headerLines, llvmTarget, inheritHeaderLines);
+        const asmContent = stripDebugInfo(rawAsm);
+        await fs.writeFile(asmFile, asmContent);
 
         // Build MCA command - always use -mcpu for llvm-mca
         const mcpuForMca = config.mcpu || (config.useNative ? 'native' : config.march);
-        const mcaCmd = `llvm-mca -mcpu=${mcpuForMca} ${asmFile}`;
-        console.log('Running:', mcaCmd);
-        const { stdout } = await execAsync(mcaCmd);
-
-        const latencyMatch = stdout.match(/Total Cycles:\s+(\d+)/);
-        const throughputMatch = stdout.match(/Block RThroughput:\s+([\d.]+)/);
-        
-        const latency = latencyMatch ? latencyMatch[1] : 'N/A';
-        const throughput = throughputMatch ? throughputMatch[1] : 'N/A';
+        const mcaArgs = [
+            ...(isCrossCompile ? [`-mtriple=${config.target}`] : []),
+            `-mcpu=${mcpuForMca}`,
+            '-timeline', '-bottleneck-analysis', '-resource-pressure',
+            ...toolchain.extraMcaFlags,
+            asmFile
+        ];
+        console.log('Running:', formatCommand(toolchain.llvmMcaPath, mcaArgs));
+        let mcaOutput;
+        try {
+            mcaOutput = await runProcess(toolchain.llvmMcaPath, mcaArgs, processOptions);
+        } catch (error: any) {
+            // e.g. LoongArch, which LLVM has no scheduling models for yet
+            if (error instanceof ProcessError && /unable to find instruction-level scheduling information/.test(error.stderr)) {
+                throw new Error(`llvm-mca has no scheduling model for ${mcpuForMca} (${llvmTarget}), so it cannot estimate timings for this CPU`);
+            }
+            throw error;
+        }
+        const { stdout, stderr } = mcaOutput;
 
-        const asmContent = await fs.readFile(asmFile, 'utf-8');
+        const regions = parseRegions(stdout, sourceMaps, instrumented.regions);
 
-        // Parse instructions
-        const instructions: Array<{order: number, uops: string, latency: string, throughput: string, instruction: string}> = [];
-        const instrInfoMatch = stdout.match(/Instruction Info:[\s\S]*?\[1\]    \[2\]    \[3\].*?\n([\s\S]*?)(?=\n\nResources:|$)/);
-        
-        if (instrInfoMatch) {
-            const lines = instrInfoMatch[1].trim().split('\n');
-            let order = 1;
-            for (const line of lines) {
-                const match = line.match(/^\s*(\d+)\s+(\d+)\s+([\d.]+)\s+.*?\s{2,}(.+)$/);
-                if (match) {
-                    instructions.push({
-                        order: order++,
-                        uops: match[1],
-                        latency: match[2],
-                        throughput: match[3],
-                        instruction: match[4].trim()
-                    });
-                }
-            }
+        const hostCpu = config.useNative ? await getHostCpu(toolchain) : null;
+        const cpuName = config.useNative ? hostCpu || 'unknown host CPU' : config.label;
+        const warnings = getSchedulingModelWarnings(stderr, config.useNative ? hostCpu : mcpuForMca);
+        const unmapped = regions.flatMap(r => r.instructions).filter(i => i.sourceLine === undefined).length;
+        if (!inheritHeaderLines && unmapped) {
+            warnings.push(`${unmapped} instruction(s) inlined from headers have no source line: GCC's line tables do not record where an intrinsic was called. Use clang for per-line results.`);
         }
 
         return {
-            latency,
-            throughput,
+            latency: sumRegionMetric(regions, r => r.latency),
+            throughput: sumRegionMetric(regions, r => r.throughput),
             fullReport: stdout,
             assembly: asmContent,
-            cpuTarget: `${config.category} - ${config.label}`,
-            instructions
+            cpuTarget: `${config.category} - ${cpuName}`,
+            compiler: await getCompilerVersion(compiler),
+            compileCommand: toDisplayCommand(compiler, compileArgs, tmpDir),
+            mcaCommand: toDisplayCommand(toolchain.llvmMcaPath, mcaArgs, tmpDir),
+            instructions: regions.flatMap(r => r.instructions),
+            regions,
+            warnings,
+            inheritedFlags,
+            spills
         };
     } finally {
         await fs.rm(tmpDir, { recursive: true, force: true });
     }
 }
 
-function getWebviewContent(results: McaResults): string {
-    const instructionsJson = JSON.stringify(results.instructions);
+// Compile the snippet with the vectorizers' optimization remarks enabled
+async function collectVectorizationRemarks(
+    snippet: McaSnippet,
+    cpuKey: string,
+    toolchain: ToolchainSettings,
+    token?: vscode.CancellationToken
+): Promise<OptimizationRemark[]> {
+    const config = (await getCpuConfigs(toolchain))[cpuKey];
+    if (!config) {
+        throw new Error(`Unknown CPU: ${cpuKey}`);
+    }
+
+    const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'simd-remarks-'));
+    const cFile = path.join(tmpDir, snippet.language === 'c' ? 'input.c' : 'input.cpp');
+
+    try {
+        const { compiler, llvmTarget, headers, compileFlags } = await prepareCompile(snippet, config, toolchain);
+        const headerLines = headers.split('\n').length - 1;
+        await fs.writeFile(cFile, headers + snippet.code + (snippet.epilogue || ''));
+
+        // Remarks need line tables for their source locations
+        const compileArgs = [
+            '-S', `-${toolchain.optimizationLevel}`,
+            ...getLineTableFlags(toolchain.compiler),
+            ...getRemarkFlags(toolchain.compiler),
+            ...getCpuFlags(toolchain.compiler, config, llvmTarget),
+            ...compileFlags,
+            ...toolchain.extraCompilerFlags,
+            '-o', path.join(tmpDir, 'output.s'), cFile
+        ];
+        const { stderr } = await runCompiler(compiler, compileArgs, cFile, headerLines, toolchain, {
+            token, timeoutMs: toolchain.timeoutSeconds * 1000
+        });
+        return parseOptimizationRemarks(stderr, path.basename(cFile), headerLines);
+    } finally {
+        await fs.rm(tmpDir, { recursive: true, force: true });
+    }
+}
+
+// Metrics, instruction table and detail tabs for one llvm-mca code region
+function renderRegion(region: McaRegion, index: number, baseLine: number): string {
+    const docLine = region.sourceLine !== undefined ? baseLine + region.sourceLine : undefined;
+    const title = region.name
+        ? `<h2 class="region-title"${docLine !== undefined ? ` data-line="${docLine}" title="Reveal source line"` : ''}> Region ${escapeHtml(region.name)}${docLine !== undefined ? ` (line ${docLine + 1})` : ''}</h2>`
+        : '';
+
+    return `
+        <div class="region" data-region="${index}">
+        ${title}
+        <div class="section">
+            <div class="metrics">
+                <div class="metric">
+                    <div class="metric-label">Total Cycles</div>
+                    <div class="metric-value">${region.latency}<span class="metric-unit">cycles</span></div>
+                </div>
+                <div class="metric">
+                    <div class="metric-label">Block Throughput</div>
+                    <div class="metric-value">${region.throughput}<span class="metric-unit">cycles</span></div>
+                </div>
+                <div class="metric">
+                    <div class="metric-label">Instructions</div>
+                    <div class="metric-value">${region.instructions.length}<span class="metric-unit">total</span></div>
+                </div>
+            </div>
+        </div>
+
+        <div class="tabs">
+            <button class="tab active" data-tab="overview">Overview</button>
+            <button class="tab" data-tab="pressure">Resource Pressure</button>
+            <button class="tab" data-tab="timeline">Timeline</button>
+            <button class="tab" data-tab="bottlenecks">Bottlenecks</button>
+        </div>
+
+        <div class="tab-content active" id="tab-overview-${index}">
+        <div class="section">
+            <h2> Performance Visualization</h2>
+            <div class="chart-container">
+                <canvas id="perfChart-${index}"></canvas>
+            </div>
+        </div>
+
+        <div class="section">
+            <h2> Instruction Performance (click headers to sort)</h2>
+            <div class="controls">
+                <button class="btn active" id="resetBtn-${index}"> Assembly Order</button>
+            </div>
+            <table id="instrTable-${index}">
+                <thead>
+                    <tr>
+                        <th class="sortable" data-column="order">#</th>
+                        <th class="sortable" data-column="sourceLine">Line</th>
+                        <th class="sortable" data-column="uops">uOps</th>
+                        <th class="sortable" data-column="latency">Latency</th>
+                        <th class="sortable" data-column="throughput">Throughput</th>
+                        <th class="sortable" data-column="instruction">Instruction</th>
+                    </tr>
+                </thead>
+                <tbody id="tableBody-${index}">
+                </tbody>
+            </table>
+        </div>
+        </div>
+
+        <div class="tab-content" id="tab-pressure-${index}">
+            ${renderResourcePressure(region.resourcePressure)}
+        </div>
+
+        <div class="tab-content" id="tab-timeline-${index}">
+            ${renderTimeline(region.timeline)}
+        </div>
+
+        <div class="tab-content" id="tab-bottlenecks-${index}">
+            ${renderBottlenecks(region.bottlenecks)}
+        </div>
+        </div>`;
+}
+
+function getWebviewContent(results: McaResults, baseLine: number): string {
+    const regionsJson = JSON.stringify(results.regions.map(r => r.instructions));
     
     return `<!DOCTYPE html>
     <html lang="en">
@@ -369,6 +523,10 @@ function getWebviewContent(results: McaResults): string {
                 border-radius: 5px;
                 border-left: 3px solid #FFA500;
             }
+            .inherited-source {
+                opacity: 0.7;
+                font-size: 0.9em;
+            }
             .chart-container {
                 background: var(--vscode-editor-inactiveSelectionBackground);
                 padding: 20px;
@@ -414,11 +572,19 @@ function getWebviewContent(results: McaResults): string {
             tr:hover {
                 background: var(--vscode-list-hoverBackground);
             }
+            tr.has-source {
+                cursor: pointer;
+            }
             .instruction {
                 font-family: var(--vscode-editor-font-family);
                 font-size: 0.95em;
                 color: var(--vscode-editor-foreground);
             }
+            .mnemonic {
+                color: var(--vscode-textLink-foreground);
+                cursor: pointer;
+                text-decoration: underline dotted;
+            }
             .bar-cell {
                 display: flex;
                 align-items: center;
@@ -490,58 +656,47 @@ function getWebviewContent(results: McaResults): string {
                 background: #FF8C00;
                 box-shadow: 0 0 0 2px #FFA500;
             }
+            .warning {
+                margin: 15px 0;
+                padding: 12px 15px;
+                background: var(--vscode-inputValidation-warningBackground);
+                border-left: 4px solid var(--vscode-editorWarning-foreground);
+                border-radius: 5px;
+            }
+            .region + .region {
+                margin-top: 40px;
+                padding-top: 10px;
+                border-top: 2px solid var(--vscode-panel-border);
+            }
+            .region-title[data-line] {
+                cursor: pointer;
+            }
+            ${REPORT_VIEW_STYLES}
         </style>
     </head>
     <body>
         <h1> LLVM-MCA Analysis Results</h1>
         
-        <div class="section">
-            <div class="metrics">
-                <div class="metric">
-                    <div class="metric-label">Total Cycles</div>
-                    <div class="metric-value">${results.latency}<span class="metric-unit">cycles</span></div>
-                </div>
-                <div class="metric">
-                    <div class="metric-label">Block Throughput</div>
-                    <div class="metric-value">${results.throughput}<span class="metric-unit">cycles</span></div>
-                </div>
-                <div class="metric">
-                    <div class="metric-label">Instructions</div>
-                    <div class="metric-value">${results.instructions.length}<span class="metric-unit">total</span></div>
-                </div>
-            </div>
-            <div class="arch-info">
-                <strong> CPU Target:</strong> ${escapeHtml(results.cpuTarget)}
-            </div>
-        </div>
+        ${results.warnings.map(w => `<div class="warning">⚠ ${escapeHtml(w)}</div>`).join('\n')}
 
-        <div class="section">
-            <h2> Performance Visualization</h2>
-            <div class="chart-container">
-                <canvas id="perfChart"></canvas>
-            </div>
+        <div class="arch-info">
+            <strong> CPU Target:</strong> ${escapeHtml(results.cpuTarget)}<br>
+            <strong> Compiler:</strong> ${escapeHtml(results.compiler)}<br>
+            <strong> Compile:</strong> <code>${escapeHtml(results.compileCommand)}</code><br>
+            ${results.inheritedFlags ? `<strong> Inherited flags:</strong> <code>${escapeHtml(results.inheritedFlags.flags.join(' ') || '(none)')}</code>
+            <span class="inherited-source">from ${escapeHtml(results.inheritedFlags.database)} (${escapeHtml(path.basename(results.inheritedFlags.file))})</span><br>` : ''}
+            <strong> Analyze:</strong> <code>${escapeHtml(results.mcaCommand)}</code>
         </div>
-
-        <div class="section">
-            <h2> Instruction Performance (click headers to sort)</h2>
-            <div class="controls">
-                <button class="btn active" id="resetBtn"> Assembly Order</button>
-            </div>
-            <table id="instrTable">
-                <thead>
-                    <tr>
-                        <th class="sortable" data-column="order">#</th>
-                        <th class="sortable" data-column="uops">uOps</th>
-                        <th class="sortable" data-column="latency">Latency</th>
-                        <th class="sortable" data-column="throughput">Throughput</th>
-                        <th class="sortable" data-column="instruction">Instruction</th>
-                    </tr>
-                </thead>
-                <tbody id="tableBody">
-                </tbody>
-            </table>
+        <div class="controls" style="margin-top: 15px;">
+            <button class="btn" data-export="json"> Export JSON</button>
+            <button class="btn" data-export="csv"> Export CSV</button>
+            <button class="btn" data-export="markdown"> Export Markdown</button>
         </div>
 
+        ${renderSpills(results.spills, baseLine)}
+
+        ${results.regions.map((region, i) => renderRegion(region, i, baseLine)).join('\n')}
+
         <div class="section">
             <details>
                 <summary> Generated Assembly Code</summary>
@@ -557,12 +712,22 @@ function getWebviewContent(results: McaResults): string {
         </div>
 
         <script>
-            const instructions = ${instructionsJson};
-            const originalOrder = JSON.parse(JSON.stringify(instructions));
-            let currentSort = { column: null, direction: 'asc' };
+            const vscode = acquireVsCodeApi();
+            const baseLine = ${baseLine};
+            let intrinsicDocs = {};
+            const regions = ${regionsJson}.map(instructions => ({
+                instructions,
+                originalOrder: JSON.parse(JSON.stringify(instructions)),
+                currentSort: { column: null, direction: 'asc' }
+            }));
 
-            function renderTable() {
-                const tbody = document.getElementById('tableBody');
+            function revealLine(line) {
+                vscode.postMessage({ command: 'revealLine', line });
+            }
+
+            function renderTable(index) {
+                const { instructions } = regions[index];
+                const tbody = document.getElementById('tableBody-' + index);
                 tbody.innerHTML = '';
                 
                 const maxLatency = Math.max(...instructions.map(i => parseFloat(i.latency)));
@@ -574,8 +739,16 @@ function getWebviewContent(results: McaResults): string {
                     const latencyPercent = (parseFloat(instr.latency) / maxLatency) * 100;
                     const throughputPercent = (parseFloat(instr.throughput) / maxThroughput) * 100;
                     
+                    const hasSource = instr.sourceLine !== undefined;
+                    if (hasSource) {
+                        row.classList.add('has-source');
+                        row.title = 'Reveal source line';
+                        row.addEventListener('click', () => revealLine(baseLine + instr.sourceLine));
+                    }
+                    
                     row.innerHTML = \`
                         <td>\${instr.order}</td>
+                        <td>\${hasSource ? baseLine + instr.sourceLine + 1 : '-'}</td>
                         <td>\${instr.uops}</td>
                         <td>
                             <div class="bar-cell">
@@ -589,21 +762,29 @@ function getWebviewContent(results: McaResults): string {
                                 <span class="bar-value">\${instr.throughput}</span>
                             </div>
                         </td>
-                        <td class="instruction">\${escapeHtml(instr.instruction)}</td>
+                        <td class="instruction">\${renderInstruction(instr.instruction)}</td>
                     \`;
+                    const link = row.querySelector('.mnemonic');
+                    if (link) {
+                        link.addEventListener('click', event => {
+                            event.stopPropagation();
+                            vscode.postMessage({ command: 'showIntrinsic', mnemonic: link.dataset.mnemonic });
+                        });
+                    }
                     tbody.appendChild(row);
                 });
             }
 
-            function sortTable(column) {
-                if (currentSort.column === column) {
-                    currentSort.direction = currentSort.direction === 'asc' ? 'desc' : 'asc';
+            function sortTable(index, column) {
+                const region = regions[index];
+                if (region.currentSort.column === column) {
+                    region.currentSort.direction = region.currentSort.direction === 'asc' ? 'desc' : 'asc';
                 } else {
-                    currentSort.column = column;
-                    currentSort.direction = 'asc';
+                    region.currentSort.column = column;
+                    region.currentSort.direction = 'asc';
                 }
 
-                instructions.sort((a, b) => {
+                region.instructions.sort((a, b) => {
                     let valA = a[column];
                     let valB = b[column];
                     
@@ -612,41 +793,48 @@ function getWebviewContent(results: McaResults): string {
                         valB = parseFloat(valB);
                     }
                     
-                    if (valA < valB) return currentSort.direction === 'asc' ? -1 : 1;
-                    if (valA > valB) return currentSort.direction === 'asc' ? 1 : -1;
+                    if (valA < valB) return region.currentSort.direction === 'asc' ? -1 : 1;
+                    if (valA > valB) return region.currentSort.direction === 'asc' ? 1 : -1;
                     return 0;
                 });
 
-                document.querySelectorAll('th').forEach(th => {
+                document.querySelectorAll('#instrTable-' + index + ' th').forEach(th => {
                     th.classList.remove('sort-asc', 'sort-desc');
                     if (th.dataset.column === column) {
-                        th.classList.add('sort-' + currentSort.direction);
+                        th.classList.add('sort-' + region.currentSort.direction);
                     }
                 });
 
-                document.getElementById('resetBtn').classList.remove('active');
-                renderTable();
+                document.getElementById('resetBtn-' + index).classList.remove('active');
+                renderTable(index);
             }
 
-            function resetToAssemblyOrder() {
-                instructions.length = 0;
-                instructions.push(...originalOrder);
+            function resetToAssemblyOrder(index) {
+                const region = regions[index];
+                region.instructions.length = 0;
+                region.instructions.push(...region.originalOrder);
                 
-                currentSort = { column: null, direction: 'asc' };
+                region.currentSort = { column: null, direction: 'asc' };
                 
-                document.querySelectorAll('th').forEach(th => {
+                document.querySelectorAll('#instrTable-' + index + ' th').forEach(th => {
                     th.classList.remove('sort-asc', 'sort-desc');
                 });
                 
-                document.getElementById('resetBtn').classList.add('active');
-                renderTable();
+                document.getElementById('resetBtn-' + index).classList.add('active');
+                renderTable(index);
             }
 
-            document.querySelectorAll('th.sortable').forEach(th => {
-                th.addEventListener('click', () => sortTable(th.dataset.column));
-            });
-
-            document.getElementById('resetBtn').addEventListener('click', resetToAssemblyOrder);
+            // The mnemonic links to the intrinsics that compile to it, once they are known
+            function renderInstruction(instruction) {
+                const match = instruction.match(/^(\\s*)(\\S+)([\\s\\S]*)$/);
+                const intrinsics = match && intrinsicDocs[match[2].toLowerCase()];
+                if (!intrinsics) {
+                    return escapeHtml(instruction);
+                }
+                return escapeHtml(match[1]) +
+                    \`<a class="mnemonic" data-mnemonic="\${escapeHtml(match[2].toLowerCase())}" title="Intrinsics: \${escapeHtml(intrinsics.join(', '))}">\${escapeHtml(match[2])}</a>\` +
+                    escapeHtml(match[3]);
+            }
 
             function escapeHtml(text) {
                 const div = document.createElement('div');
@@ -654,8 +842,9 @@ function getWebviewContent(results: McaResults): string {
                 return div.innerHTML;
             }
 
-            function drawChart() {
-                const canvas = document.getElementById('perfChart');
+            function drawChart(index) {
+                const { instructions } = regions[index];
+                const canvas = document.getElementById('perfChart-' + index);
                 const ctx = canvas.getContext('2d');
                 const dpr = window.devicePixelRatio || 1;
                 
@@ -697,26 +886,182 @@ function getWebviewContent(results: McaResults): string {
                 ctx.fillText('Throughput', width - 130, 42);
             }
 
-            renderTable();
-            drawChart();
+            document.querySelectorAll('.region').forEach(section => {
+                const index = parseInt(section.dataset.region, 10);
+
+                section.querySelectorAll('th.sortable').forEach(th => {
+                    th.addEventListener('click', () => sortTable(index, th.dataset.column));
+                });
+                document.getElementById('resetBtn-' + index).addEventListener('click', () => resetToAssemblyOrder(index));
+
+                section.querySelectorAll('.tab').forEach(tab => {
+                    tab.addEventListener('click', () => {
+                        section.querySelectorAll('.tab').forEach(t => t.classList.remove('active'));
+                        section.querySelectorAll('.tab-content').forEach(c => c.classList.remove('active'));
+                        tab.classList.add('active');
+                        document.getElementById('tab-' + tab.dataset.tab + '-' + index).classList.add('active');
+                    });
+                });
+
+                renderTable(index);
+                drawChart(index);
+            });
+
+            document.querySelectorAll('[data-export]').forEach(btn => {
+                btn.addEventListener('click', () => vscode.postMessage({ command: 'export', format: btn.dataset.export }));
+            });
+
+            document.querySelectorAll('.region-title[data-line], .spill-row[data-line]').forEach(el => {
+                el.addEventListener('click', () => revealLine(parseInt(el.dataset.line, 10)));
+            });
+
+            window.addEventListener('message', event => {
+                if (event.data.command === 'intrinsicDocs') {
+                    intrinsicDocs = event.data.docs;
+                    regions.forEach((region, index) => renderTable(index));
+                }
+            });
         </script>
     </body>
     </html>`;
 }
 
-function escapeHtml(text: string): string {
-    return text
-        .replace(/&/g, '&amp;')
-        .replace(/</g, '&lt;')
-        .replace(/>/g, '&gt;')
-        .replace(/"/g, '&quot;')
-        .replace(/'/g, '&#039;');
+// Report panel for a live or saved run. Clicking an instruction reveals its
+// source line in the document the run was made from.
+function showReportPanel(entry: McaHistoryEntry): vscode.WebviewPanel {
+    const panel = vscode.window.createWebviewPanel(
+        'llvmMcaResults',
+        `LLVM-MCA - ${entry.cpuLabel}`,
+        vscode.ViewColumn.Beside,
+        {
+            enableScripts: true,
+            retainContextWhenHidden: true
+        }
+    );
+
+    panel.webview.html = getWebviewContent(entry.results, entry.baseLine);
+
+    // Intrinsic docs need the API, so the mnemonic links are added once they arrive
+    let intrinsicDocs: Record<string, string[]> = {};
+    getMnemonicIntrinsics(entry.code, entry.results.instructions).then(docs => {
+        intrinsicDocs = docs;
+        panel.webview.postMessage({ command: 'intrinsicDocs', docs });
+    }, e => console.warn('Failed to look up intrinsics for the MCA report:', e));
+
+    panel.webview.onDidReceiveMessage(async message => {
+        if (message.command === 'revealLine') {
+            const document = await vscode.workspace.openTextDocument(vscode.Uri.parse(entry.documentUri));
+            const line = Math.min(message.line, document.lineCount - 1);
+            const range = document.lineAt(line).range;
+            const editor = vscode.window.visibleTextEditors.find(e => e.document === document);
+            await vscode.window.showTextDocument(document, {
+                viewColumn: editor?.viewColumn ?? vscode.ViewColumn.One,
+                selection: range
+            });
+        } else if (message.command === 'export') {
+            await exportMcaRun(entry, message.format);
+        } else if (message.command === 'showIntrinsic') {
+            await showIntrinsicDocs(message.mnemonic, intrinsicDocs[message.mnemonic] ?? []);
+        }
+    });
+
+    return panel;
+}
+
+interface CpuQuickPickItem extends vscode.QuickPickItem {
+    key: string;
+}
+
+async function getCpuQuickPickItems(toolchain: ToolchainSettings): Promise<CpuQuickPickItem[]> {
+    // Detect host architecture and the targets the toolchain can cross-compile to
+    const [hostArch, registeredTargets, hostCpu, cpuConfigs] = await Promise.all([
+        getHostArch(), getRegisteredTargets(toolchain), getHostCpu(toolchain), getCpuConfigs(toolchain)
+    ]);
+    console.log('Host architecture:', hostArch);
+
+    // Filter CPUs by compatibility
+    const cpuItems = Object.entries(cpuConfigs)
+        .filter(([key, config]) => isCompatibleTarget(hostArch, config, registeredTargets))
+        .map(([key, config]) => ({
+            label: config.useNative && hostCpu ? `Native (${hostCpu})` : config.label,
+            description: config.category,
+            key: key
+        }));
+
+    // Sort by category then label
+    cpuItems.sort((a, b) => {
+        if (a.description === b.description) {
+            return a.label.localeCompare(b.label);
+        }
+        return a.description.localeCompare(b.description);
+    });
+
+    return cpuItems;
+}
+
+// The CPU from the mcaDefaultCpu setting, given as a CPU key ("x86-skylake") or
+// name ("skylake"). The setting can differ per workspace folder and language.
+async function getDefaultCpu(document: vscode.TextDocument): Promise<McaEstimateTarget | undefined> {
+    const value = vscode.workspace.getConfiguration('code.simd.info', document).get<string>('mcaDefaultCpu', 'native').trim();
+    const toolchain = getToolchainSettings(document.uri);
+    const cpuConfigs = await getCpuConfigs(toolchain);
+    const key = cpuConfigs[value] ? value : Object.keys(cpuConfigs).find(k => cpuConfigs[k].label === value);
+    if (!key) {
+        console.warn(`Unknown default LLVM-MCA CPU: ${value}`);
+        return undefined;
+    }
+
+    const config = cpuConfigs[key];
+    if (!config.useNative) {
+        return { key, label: config.label };
+    }
+    const hostCpu = await getHostCpu(toolchain);
+    return { key, label: hostCpu || 'native' };
+}
+
+// The default CPU, unless the user asked to choose or the default is not a known CPU
+async function resolveCpu(document: vscode.TextDocument, toolchain: ToolchainSettings, choose: boolean): Promise<McaEstimateTarget | undefined> {
+    const defaultCpu = choose ? undefined : await getDefaultCpu(document);
+    if (defaultCpu) {
+        return defaultCpu;
+    }
+
+    const cpuItems = await getCpuQuickPickItems(toolchain);
+
+    if (cpuItems.length === 0) {
+        vscode.window.showErrorMessage('No compatible CPU targets found for your system');
+        return undefined;
+    }
+
+    const selectedCpu = await vscode.window.showQuickPick(cpuItems, {
+        placeHolder: 'Select CPU target for analysis',
+        title: 'LLVM-MCA CPU Target',
+        matchOnDescription: true
+    });
+    return selectedCpu && { key: selectedCpu.key, label: selectedCpu.label };
 }
 
 export function registerLlvmMcaCommand(context: vscode.ExtensionContext) {
     console.log('Registering LLVM-MCA command...');
-    
-    const disposable = vscode.commands.registerCommand('code.simd.ai.analyzeMca', async () => {
+
+    initCpuCatalog(context);
+
+    const mcaDiagnostics = new McaDiagnostics();
+    mcaDiagnostics.register(context);
+
+    const spillDiagnostics = new SpillDiagnostics();
+    spillDiagnostics.register(context);
+
+    const history = new McaHistory(context);
+    history.register(context);
+
+    const remarkDiagnostics = new RemarkDiagnostics();
+    remarkDiagnostics.register(context);
+
+    new McaCodeLensProvider(analyzeMca, getDefaultCpu).register(context);
+    new DefaultCpuStatusBar(getDefaultCpu).register(context);
+
+    const analyzeWithCpu = async (chooseCpu: boolean) => {
         console.log('LLVM-MCA command triggered!');
         
         const editor = vscode.window.activeTextEditor;
@@ -726,88 +1071,353 @@ export function registerLlvmMcaCommand(context: vscode.ExtensionContext) {
             return;
         }
 
-        const selection = editor.selection;
-        const text = editor.document.getText(selection);
+        const resolved = await resolveMcaSnippet(editor);
 
-        if (!text.trim()) {
-            vscode.window.showErrorMessage('No code selected');
+        if (!resolved || !resolved.snippet.code.trim()) {
+            vscode.window.showErrorMessage('No code selected and no enclosing function found');
             return;
         }
 
-        // Detect host architecture
-        const hostArch = await getHostArch();
-        console.log('Host architecture:', hostArch);
-
-        // Filter CPUs by compatibility
-        const cpuItems = Object.entries(CPU_CONFIGS)
-            .filter(([key, config]) => isCompatibleTarget(hostArch, config))
-            .map(([key, config]) => ({
-                label: config.label,
-                description: config.category,
-                key: key
-            }));
+        const toolchain = getToolchainSettings(editor.document.uri);
+        const selectedCpu = await resolveCpu(editor.document, toolchain, chooseCpu);
+
+        if (!selectedCpu) {
+            return; // User cancelled
+        }
+
+        // Compile errors from the last run are stale whatever this one ends with
+        mcaDiagnostics.clear(editor.document.uri);
+        try {
+            await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: `Analyzing ${resolved.description} with LLVM-MCA (${selectedCpu.label})`,
+                cancellable: true
+            }, async (progress, token) => {
+                progress.report({ message: "Compiling to assembly..." });
+                
+                const results = await analyzeMca(resolved.snippet, selectedCpu.key, toolchain, token);
+                spillDiagnostics.publish(editor.document, resolved.baseLine, resolved.description, results.spills);
+
+                progress.report({ message: "Generating report..." });
+
+                const entry = await history.record({
+                    documentUri: editor.document.uri.toString(),
+                    baseLine: resolved.baseLine,
+                    description: resolved.description,
+                    cpuKey: selectedCpu.key,
+                    cpuLabel: selectedCpu.label,
+                    code: resolved.snippet.code,
+                    toolchain,
+                    results
+                });
+
+                const panel = showReportPanel(entry);
+                const sourceDecorations = decorateSourceLines(editor, results, resolved.baseLine);
+                panel.onDidDispose(() => sourceDecorations.dispose());
+
+                for (const warning of results.warnings) {
+                    vscode.window.showWarningMessage(warning);
+                }
+
+                const regionNote = results.regions.length > 1 ? ` (${results.regions.length} regions)` : '';
+                vscode.window.showInformationMessage(
+                    `Analysis complete! Latency: ${results.latency} cycles | Throughput: ${results.throughput}${regionNote}`
+                );
+                
+                console.log('Analysis complete!');
+            });
+
+        } catch (error: any) {
+            if (error instanceof McaCancelledError) {
+                return;
+            }
+            console.error('Command error:', error);
+            if (error instanceof McaCompileError) {
+                mcaDiagnostics.publish(editor.document, resolved.baseLine, error.diagnostics, error.compiler);
+            }
+            vscode.window.showErrorMessage(`LLVM-MCA Error: ${error.message}`);
+        }
+    };
+
+    const disposable = vscode.commands.registerCommand('code.simd.ai.analyzeMca', () => analyzeWithCpu(false));
+    const chooseCpuDisposable = vscode.commands.registerCommand('code.simd.ai.analyzeMcaOnCpu', () => analyzeWithCpu(true));
 
+    // The status bar item's command: pick a CPU and save it as the default
+    const selectDefaultDisposable = vscode.commands.registerCommand('code.simd.ai.selectDefaultCpu', async () => {
+        const document = vscode.window.activeTextEditor?.document;
+        if (!document) {
+            vscode.window.showErrorMessage('No active editor found');
+            return;
+        }
+
+        const toolchain = getToolchainSettings(document.uri);
+        const [cpuItems, current] = await Promise.all([getCpuQuickPickItems(toolchain), getDefaultCpu(document)]);
         if (cpuItems.length === 0) {
             vscode.window.showErrorMessage('No compatible CPU targets found for your system');
             return;
         }
 
-        // Sort by category then label
-        cpuItems.sort((a, b) => {
-            if (a.description === b.description) {
-                return a.label.localeCompare(b.label);
+        const selectedCpu = await vscode.window.showQuickPick(
+            cpuItems.map(item => item.key === current?.key ? { ...item, detail: '$(check) Current default' } : item),
+            {
+                placeHolder: 'Select the default CPU target for LLVM-MCA',
+                title: 'Default LLVM-MCA CPU Target',
+                matchOnDescription: true
             }
-            return a.description.localeCompare(b.description);
-        });
+        );
+        if (selectedCpu) {
+            await saveDefaultCpu(document, selectedCpu.key, selectedCpu.label);
+        }
+    });
+
+    const compareDisposable = vscode.commands.registerCommand('code.simd.ai.compareMca', async () => {
+        const editor = vscode.window.activeTextEditor;
+
+        if (!editor) {
+            vscode.window.showErrorMessage('No active editor found');
+            return;
+        }
+
+        const resolved = await resolveMcaSnippet(editor);
+
+        if (!resolved || !resolved.snippet.code.trim()) {
+            vscode.window.showErrorMessage('No code selected and no enclosing function found');
+            return;
+        }
+
+        const toolchain = getToolchainSettings(editor.document.uri);
+        const cpuItems = await getCpuQuickPickItems(toolchain);
 
-        const selectedCpu = await vscode.window.showQuickPick(cpuItems, {
-            placeHolder: 'Select CPU target for analysis',
-            title: 'LLVM-MCA CPU Target',
-            matchOnDescription: true
+        if (cpuItems.length === 0) {
+            vscode.window.showErrorMessage('No compatible CPU targets found for your system');
+            return;
+        }
+
+        const selectedCpus = await vscode.window.showQuickPick(cpuItems, {
+            placeHolder: 'Select two or more CPU targets to compare',
+            title: 'LLVM-MCA CPU Comparison',
+            matchOnDescription: true,
+            canPickMany: true
         });
 
-        if (!selectedCpu) {
+        if (!selectedCpus || selectedCpus.length === 0) {
             return; // User cancelled
         }
+        if (selectedCpus.length < 2) {
+            vscode.window.showWarningMessage('Select at least two CPU targets to compare');
+            return;
+        }
 
+        mcaDiagnostics.clear(editor.document.uri);
         try {
             await vscode.window.withProgress({
                 location: vscode.ProgressLocation.Notification,
-                title: `Analyzing with LLVM-MCA (${selectedCpu.label})`,
-                cancellable: false
-            }, async (progress) => {
-                progress.report({ message: "Compiling to assembly..." });
-                
-                const results = await analyzeMca(text, selectedCpu.key);
+                title: `Comparing ${resolved.description} on ${selectedCpus.length} CPUs with LLVM-MCA`,
+                cancellable: true
+            }, async (progress, token) => {
+                const runs: CpuRun[] = [];
+                const failures: string[] = [];
+                let compileError: McaCompileError | undefined;
 
-                progress.report({ message: "Generating report..." });
+                // One at a time: each run spawns the compiler and llvm-mca
+                for (const cpu of selectedCpus) {
+                    progress.report({
+                        message: `Analyzing ${cpu.label}...`,
+                        increment: 100 / selectedCpus.length
+                    });
+                    try {
+                        const results = await analyzeMca(resolved.snippet, cpu.key, toolchain, token);
+                        runs.push({ cpuLabel: cpu.label, results });
+                        await history.record({
+                            documentUri: editor.document.uri.toString(),
+                            baseLine: resolved.baseLine,
+                            description: resolved.description,
+                            cpuKey: cpu.key,
+                            cpuLabel: cpu.label,
+                            code: resolved.snippet.code,
+                            toolchain,
+                            results
+                        });
+                    } catch (error: any) {
+                        if (error instanceof McaCancelledError) {throw error;}
+                        console.error(`MCA analysis failed for ${cpu.label}:`, error);
+                        if (error instanceof McaCompileError) {
+                            compileError = error;
+                        }
+                        failures.push(cpu.label);
+                    }
+                }
+
+                if (compileError) {
+                    mcaDiagnostics.publish(editor.document, resolved.baseLine, compileError.diagnostics, compileError.compiler);
+                }
+
+                if (runs.length === 0) {
+                    throw new Error(`Analysis failed for all selected CPUs (${failures.join(', ')})`);
+                }
+                if (failures.length) {
+                    vscode.window.showWarningMessage(`LLVM-MCA failed for: ${failures.join(', ')}`);
+                }
+                for (const run of runs) {
+                    for (const warning of run.results.warnings) {
+                        vscode.window.showWarningMessage(`${run.cpuLabel}: ${warning}`);
+                    }
+                }
 
-                // Create webview panel
                 const panel = vscode.window.createWebviewPanel(
-                    'llvmMcaResults',
-                    `LLVM-MCA - ${selectedCpu.label}`,
+                    'llvmMcaCompare',
+                    `LLVM-MCA - Compare (${runs.map(r => r.cpuLabel).join(', ')})`,
                     vscode.ViewColumn.Beside,
-                    {
-                        enableScripts: true,
-                        retainContextWhenHidden: true
-                    }
+                    { retainContextWhenHidden: true }
                 );
 
-                panel.webview.html = getWebviewContent(results);
-
-                vscode.window.showInformationMessage(
-                    `Analysis complete! Latency: ${results.latency} cycles | Throughput: ${results.throughput}`
-                );
-                
-                console.log('Analysis complete!');
+                panel.webview.html = getCompareWebviewContent(runs);
             });
 
         } catch (error: any) {
+            if (error instanceof McaCancelledError) {
+                return;
+            }
             console.error('Command error:', error);
+            if (error instanceof McaCompileError) {
+                mcaDiagnostics.publish(editor.document, resolved.baseLine, error.diagnostics, error.compiler);
+            }
             vscode.window.showErrorMessage(`LLVM-MCA Error: ${error.message}`);
         }
     });
 
-    context.subscriptions.push(disposable);
+    const openRunDisposable = vscode.commands.registerCommand('code.simd.ai.openMcaRun', (entry?: McaHistoryEntry) => {
+        if (entry) {
+            showReportPanel(entry);
+        }
+    });
+
+    const diffDisposable = vscode.commands.registerCommand('code.simd.ai.diffMcaRuns', async (entry?: McaHistoryEntry, selected?: McaHistoryEntry[]) => {
+        let runs = selected?.length === 2 ? selected : undefined;
+
+        if (!runs) {
+            const entries = history.getEntries();
+            if (entries.length < 2) {
+                vscode.window.showInformationMessage('Run LLVM-MCA at least twice to diff two runs');
+                return;
+            }
+
+            const picked = await vscode.window.showQuickPick(
+                entries.map(e => ({
+                    label: `${e.cpuLabel} · ${e.description}`,
+                    description: `${e.results.latency} cycles · RThroughput ${e.results.throughput}`,
+                    detail: `${formatRunTime(e)} — ${vscode.workspace.asRelativePath(vscode.Uri.parse(e.documentUri))}`,
+                    picked: e.id === entry?.id,
+                    entry: e
+                })),
+                {
+                    placeHolder: 'Select the two runs to diff',
+                    title: 'LLVM-MCA Run Diff',
+                    canPickMany: true,
+                    matchOnDetail: true
+                }
+            );
+            if (!picked || picked.length === 0) {
+                return; // User cancelled
+            }
+            if (picked.length !== 2) {
+                vscode.window.showWarningMessage('Select exactly two runs to diff');
+                return;
+            }
+            runs = picked.map(p => p.entry);
+        }
+
+        // The older run is always the baseline
+        const [before, after] = [...runs].sort((a, b) => a.timestamp - b.timestamp);
+        const panel = vscode.window.createWebviewPanel(
+            'llvmMcaDiff',
+            `LLVM-MCA - Diff (${before.cpuLabel} → ${after.cpuLabel})`,
+            vscode.ViewColumn.Beside,
+            { retainContextWhenHidden: true }
+        );
+        panel.webview.html = getDiffWebviewContent(before, after);
+    });
+
+    const exportDisposable = vscode.commands.registerCommand('code.simd.ai.exportMcaResults', async (entry?: McaHistoryEntry) => {
+        if (!entry) {
+            const entries = history.getEntries();
+            if (entries.length === 0) {
+                vscode.window.showInformationMessage('No LLVM-MCA runs to export yet');
+                return;
+            }
+
+            const picked = await vscode.window.showQuickPick(
+                entries.map(e => ({
+                    label: `${e.cpuLabel} · ${e.description}`,
+                    description: `${e.results.latency} cycles · RThroughput ${e.results.throughput}`,
+                    detail: formatRunTime(e),
+                    entry: e
+                })),
+                { placeHolder: 'Select the run to export', title: 'Export LLVM-MCA Results' }
+            );
+            if (!picked) {
+                return; // User cancelled
+            }
+            entry = picked.entry;
+        }
+
+        await exportMcaRun(entry);
+    });
+
+    // The whole file, or only the selected code, for the mcaDefaultCpu target
+    const remarksDisposable = vscode.commands.registerCommand('code.simd.ai.showVectorizationRemarks', async () => {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor) {
+            vscode.window.showErrorMessage('No active editor found');
+            return;
+        }
+
+        const resolved = editor.selection.isEmpty ? resolveFileSnippet(editor.document) : await resolveMcaSnippet(editor);
+        if (!resolved || !resolved.snippet.code.trim()) {
+            vscode.window.showErrorMessage('No code to compile');
+            return;
+        }
+
+        const toolchain = getToolchainSettings(editor.document.uri);
+        const cpu = await getDefaultCpu(editor.document);
+        if (!cpu) {
+            vscode.window.showErrorMessage('The code.simd.info.mcaDefaultCpu setting does not name a known CPU');
+            return;
+        }
+
+        mcaDiagnostics.clear(editor.document.uri);
+        try {
+            const remarks = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: `Collecting vectorization remarks for ${resolved.description} (${cpu.label})`,
+                cancellable: true
+            }, (_progress, token) => collectVectorizationRemarks(resolved.snippet, cpu.key, toolchain, token));
+
+            remarkDiagnostics.publish(editor.document, resolved.baseLine, remarks, toolchain.compiler);
+
+            const vectorized = remarks.filter(r => r.kind === 'passed').length;
+            const missed = remarks.filter(r => r.kind === 'missed').length;
+            if (!remarks.length && /^O[01g]$/.test(toolchain.optimizationLevel)) {
+                vscode.window.showInformationMessage(`No vectorization remarks: the vectorizers do not run at -${toolchain.optimizationLevel}, set code.simd.info.optimizationLevel to O2 or O3`);
+            } else {
+                vscode.window.setStatusBarMessage(`Vectorization remarks for ${resolved.description}: ${vectorized} vectorized, ${missed} missed`, 10000);
+            }
+        } catch (error: any) {
+            if (error instanceof McaCancelledError) {
+                return;
+            }
+            console.error('Vectorization remarks error:', error);
+            if (error instanceof McaCompileError) {
+                mcaDiagnostics.publish(editor.document, resolved.baseLine, error.diagnostics, error.compiler);
+            }
+            vscode.window.showErrorMessage(`Vectorization remarks failed: ${error.message}`);
+        }
+    });
+
+    context.subscriptions.push(
+        disposable, chooseCpuDisposable, selectDefaultDisposable, compareDisposable,
+        openRunDisposable, diffDisposable, exportDisposable, remarksDisposable
+    );
+    registerMarkRegionCommand(context);
     console.log('LLVM-MCA command registered successfully');
-}
\ No newline at end of file
+}
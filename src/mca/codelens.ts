@@ -0,0 +1,275 @@
+/*
+ * Copyright (c) 2025, VectorCamp PC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import * as vscode from 'vscode';
+import { createHash } from 'crypto';
+import { McaResults, McaSnippet } from './types';
+import { ToolchainSettings, getToolchainSettings } from './toolchain';
+import { McaCancelledError } from './process';
+import { McaHistoryEntry } from './history';
+import { getFunctionSymbols, resolveFunctionSnippet, ResolvedSnippet } from './snippet';
+import { getIntrinsics } from '../intrinsicsCache';
+
+const SAVE_DEBOUNCE_MS = 750;
+const MAX_CACHED_ESTIMATES = 200;
+
+// Used until the intrinsic catalog has loaded, or when it cannot be fetched
+const INTRINSIC_FALLBACK_REGEX = /\b(_mm\d*_\w+|_mm_\w+|v\w+q?_[sufp]\d+\w*|vec_\w+|sv\w+_[suf]\d+\w*)\s*\(/;
+
+export interface McaEstimateTarget {
+    key: string;     // CPU catalog key, e.g. "x86-skylake"
+    label: string;   // Shown in the lens, e.g. "skylake"
+}
+
+export type McaAnalyzer = (
+    snippet: McaSnippet, cpuKey: string, toolchain: ToolchainSettings, token?: vscode.CancellationToken
+) => Promise<McaResults>;
+
+interface Estimate {
+    timestamp: number;
+    target: McaEstimateTarget;
+    toolchain: ToolchainSettings;
+    results?: McaResults;
+    error?: string;
+}
+
+interface PendingFunction {
+    hash: string;
+    documentUri: string;
+    resolved: ResolvedSnippet;
+    target: McaEstimateTarget;
+    toolchain: ToolchainSettings;
+}
+
+// Cycles per loop iteration, summed over regions, as llvm-mca only reports
+// the total for all iterations it simulated
+export function cyclesPerIteration(results: McaResults): number | undefined {
+    let total = 0;
+    for (const region of results.regions) {
+        const cycles = parseFloat(region.latency);
+        const iterations = parseFloat(region.iterations ?? '');
+        if (isNaN(cycles) || !iterations) {return undefined;}
+        total += cycles / iterations;
+    }
+    return results.regions.length ? total : undefined;
+}
+
+// "≈ 14.0 cycles · RThroughput 3.5 on skylake" above every function that uses
+// SIMD intrinsics. Estimates are made in the background after a save and cached
+// by the hash of everything that goes into the analysis.
+export class McaCodeLensProvider implements vscode.CodeLensProvider {
+    private readonly changeEmitter = new vscode.EventEmitter<void>();
+    readonly onDidChangeCodeLenses = this.changeEmitter.event;
+
+    private readonly estimates = new Map<string, Estimate>();
+    private readonly queue: PendingFunction[] = [];
+    private readonly queued = new Set<string>();
+    private readonly saveTimers = new Map<string, NodeJS.Timeout>();
+    private running: vscode.CancellationTokenSource | undefined;
+    private runningFunction: PendingFunction | undefined;
+    private intrinsicNames: Set<string> | undefined;
+
+    constructor(
+        private readonly analyze: McaAnalyzer,
+        private readonly getTarget: (document: vscode.TextDocument) => Promise<McaEstimateTarget | undefined>
+    ) {
+        getIntrinsics().then(names => {
+            if (names.length) {
+                this.intrinsicNames = new Set(names);
+                this.changeEmitter.fire();
+            }
+        });
+    }
+
+    private isEnabled(scope: vscode.Uri): boolean {
+        const config = vscode.workspace.getConfiguration('code.simd.info', scope);
+        return config.get<boolean>('enableLLVM', false) && config.get<boolean>('mcaCodeLens', true);
+    }
+
+    private usesIntrinsics(code: string): boolean {
+        if (!this.intrinsicNames) {
+            return INTRINSIC_FALLBACK_REGEX.test(code);
+        }
+        for (const word of code.match(/\b\w+(?=\s*\()/g) ?? []) {
+            if (this.intrinsicNames.has(word)) {return true;}
+        }
+        return false;
+    }
+
+    private hashOf(snippet: McaSnippet, target: McaEstimateTarget, toolchain: ToolchainSettings): string {
+        return createHash('sha1')
+            .update(JSON.stringify({ snippet, cpuKey: target.key, toolchain }))
+            .digest('hex');
+    }
+
+    // Outermost functions that call an intrinsic, resolved as analyzeMca would see them
+    private async collectFunctions(document: vscode.TextDocument): Promise<PendingFunction[]> {
+        const target = await this.getTarget(document);
+        if (!target) {return [];}
+        const toolchain = getToolchainSettings(document.uri);
+
+        const functions = await getFunctionSymbols(document);
+        return functions
+            .filter(fn => !functions.some(other => other !== fn && other.range.contains(fn.range)))
+            .filter(fn => this.usesIntrinsics(document.getText(fn.range)))
+            .map(fn => {
+                const resolved = resolveFunctionSnippet(document, fn);
+                return {
+                    hash: this.hashOf(resolved.snippet, target, toolchain),
+                    documentUri: document.uri.toString(),
+                    resolved,
+                    target,
+                    toolchain
+                };
+            });
+    }
+
+    async provideCodeLenses(document: vscode.TextDocument): Promise<vscode.CodeLens[]> {
+        if (!this.isEnabled(document.uri)) {return [];}
+
+        const functions = await this.collectFunctions(document);
+        const missing: PendingFunction[] = [];
+
+        const lenses = functions.map(fn => {
+            const range = new vscode.Range(fn.resolved.baseLine, 0, fn.resolved.baseLine, 0);
+            const estimate = this.estimates.get(fn.hash);
+
+            if (!estimate) {
+                // Unsaved edits are picked up on the next save
+                if (!document.isDirty) {missing.push(fn);}
+                return new vscode.CodeLens(range, {
+                    title: document.isDirty ? '≈ … cycles (save to estimate)' : '≈ … cycles',
+                    command: ''
+                });
+            }
+
+            if (!estimate.results) {
+                return new vscode.CodeLens(range, {
+                    title: `LLVM-MCA estimate failed on ${estimate.target.label}`,
+                    command: '',
+                    tooltip: estimate.error
+                });
+            }
+
+            const { results } = estimate;
+            const cycles = cyclesPerIteration(results);
+            const entry: McaHistoryEntry = {
+                id: fn.hash,
+                timestamp: estimate.timestamp,
+                documentUri: document.uri.toString(),
+                baseLine: fn.resolved.baseLine,
+                description: fn.resolved.description,
+                cpuKey: estimate.target.key,
+                cpuLabel: estimate.target.label,
+                code: fn.resolved.snippet.code,
+                toolchain: estimate.toolchain,
+                results
+            };
+            return new vscode.CodeLens(range, {
+                title: `≈ ${cycles !== undefined ? cycles.toFixed(1) : results.latency} cycles · RThroughput ${results.throughput} on ${estimate.target.label}`,
+                command: 'code.simd.ai.openMcaRun',
+                tooltip: `${results.cpuTarget}\n${results.compileCommand}\nClick to open the full LLVM-MCA report`,
+                arguments: [entry]
+            });
+        });
+
+        if (missing.length) {
+            this.enqueue(missing);
+        }
+        return lenses;
+    }
+
+    private enqueue(functions: PendingFunction[]) {
+        for (const fn of functions) {
+            if (!this.queued.has(fn.hash) && !this.estimates.has(fn.hash)) {
+                this.queued.add(fn.hash);
+                this.queue.push(fn);
+            }
+        }
+        if (!this.running) {
+            void this.drain();
+        }
+    }
+
+    // One analysis at a time, so saving a large file does not start a compiler per function
+    private async drain() {
+        while (this.queue.length) {
+            const fn = this.queue.shift()!;
+            this.running = new vscode.CancellationTokenSource();
+            this.runningFunction = fn;
+            try {
+                const results = await this.analyze(fn.resolved.snippet, fn.target.key, fn.toolchain, this.running.token);
+                this.store(fn, { results });
+            } catch (error: any) {
+                if (!(error instanceof McaCancelledError)) {
+                    console.warn(`LLVM-MCA estimate for ${fn.resolved.description} failed:`, error);
+                    this.store(fn, { error: error.message });
+                }
+            } finally {
+                this.queued.delete(fn.hash);
+                this.running.dispose();
+                this.running = undefined;
+                this.runningFunction = undefined;
+            }
+            this.changeEmitter.fire();
+        }
+    }
+
+    private store(fn: PendingFunction, outcome: Pick<Estimate, 'results' | 'error'>) {
+        this.estimates.set(fn.hash, { timestamp: Date.now(), target: fn.target, toolchain: fn.toolchain, ...outcome });
+        // Maps iterate in insertion order, so the first key is the oldest estimate
+        while (this.estimates.size > MAX_CACHED_ESTIMATES) {
+            this.estimates.delete(this.estimates.keys().next().value!);
+        }
+    }
+
+    // Saves come in bursts (format on save, save all), so wait for them to settle
+    private onDidSave(document: vscode.TextDocument) {
+        if (!this.isEnabled(document.uri)) {return;}
+
+        const key = document.uri.toString();
+        clearTimeout(this.saveTimers.get(key));
+        this.saveTimers.set(key, setTimeout(async () => {
+            this.saveTimers.delete(key);
+            // Whatever is still queued from earlier saves of this file is out of date;
+            // estimates for other files carry on
+            if (this.runningFunction?.documentUri === key) {
+                this.running?.cancel();
+            }
+            for (let i = this.queue.length - 1; i >= 0; i--) {
+                if (this.queue[i].documentUri === key) {
+                    this.queued.delete(this.queue[i].hash);
+                    this.queue.splice(i, 1);
+                }
+            }
+            this.enqueue(await this.collectFunctions(document));
+            this.changeEmitter.fire();
+        }, SAVE_DEBOUNCE_MS));
+    }
+
+    register(context: vscode.ExtensionContext) {
+        context.subscriptions.push(
+            vscode.languages.registerCodeLensProvider([{ language: 'c' }, { language: 'cpp' }], this),
+            vscode.workspace.onDidSaveTextDocument(document => this.onDidSave(document)),
+            vscode.workspace.onDidChangeConfiguration(e => {
+                if (e.affectsConfiguration('code.simd.info')) {
+                    this.changeEmitter.fire();
+                }
+            }),
+            this.changeEmitter,
+            { dispose: () => this.saveTimers.forEach(timer => clearTimeout(timer)) }
+        );
+    }
+}
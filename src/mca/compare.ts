@@ -0,0 +1,243 @@
+/*
+ * Copyright (c) 2025, VectorCamp PC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { McaInstruction, McaResults } from './types';
+import { escapeHtml } from '../utils/html';
+
+export interface CpuRun {
+    cpuLabel: string;
+    results: McaResults;
+}
+
+interface InstructionRow {
+    instruction: string;
+    perCpu: Array<McaInstruction | undefined>;
+}
+
+// Lower is better for every metric we compare. Returns the indices of the
+// best and worst values, or nothing when there is no spread to mark.
+function rankValues(values: number[]): { best: number[]; worst: number[] } {
+    const valid = values.filter(v => !isNaN(v));
+    if (valid.length < 2) {return { best: [], worst: [] };}
+
+    const min = Math.min(...valid);
+    const max = Math.max(...valid);
+    if (min === max) {return { best: [], worst: [] };}
+
+    return {
+        best: values.map((v, i) => (v === min ? i : -1)).filter(i => i >= 0),
+        worst: values.map((v, i) => (v === max ? i : -1)).filter(i => i >= 0),
+    };
+}
+
+function rankClass(index: number, rank: { best: number[]; worst: number[] }): string {
+    if (rank.best.includes(index)) {return 'best';}
+    if (rank.worst.includes(index)) {return 'worst';}
+    return '';
+}
+
+// Different CPUs may schedule different code, so rows are keyed by the
+// instruction text plus its occurrence count rather than by position.
+function alignInstructions(runs: CpuRun[]): InstructionRow[] {
+    const rows: InstructionRow[] = [];
+    const rowIndex = new Map<string, number>();
+
+    runs.forEach((run, cpuIndex) => {
+        const seen = new Map<string, number>();
+        for (const instr of run.results.instructions) {
+            const text = instr.instruction.replace(/\s+/g, ' ');
+            const occurrence = (seen.get(text) || 0) + 1;
+            seen.set(text, occurrence);
+
+            const key = `${text}#${occurrence}`;
+            let idx = rowIndex.get(key);
+            if (idx === undefined) {
+                idx = rows.length;
+                rowIndex.set(key, idx);
+                rows.push({ instruction: text, perCpu: new Array(runs.length).fill(undefined) });
+            }
+            rows[idx].perCpu[cpuIndex] = instr;
+        }
+    });
+
+    return rows;
+}
+
+function summaryRow(label: string, values: string[]): string {
+    const rank = rankValues(values.map(v => parseFloat(v)));
+    const cells = values
+        .map((v, i) => `<td class="${rankClass(i, rank)}">${escapeHtml(v)}</td>`)
+        .join('');
+    return `<tr><th>${label}</th>${cells}</tr>`;
+}
+
+export function getCompareWebviewContent(runs: CpuRun[]): string {
+    const headerCells = runs
+        .map(r => `<th>${escapeHtml(r.cpuLabel)}<div class="sub">${escapeHtml(r.results.cpuTarget)}</div></th>`)
+        .join('');
+
+    const summaryRows = [
+        summaryRow('Total Cycles', runs.map(r => r.results.latency)),
+        summaryRow('Block RThroughput', runs.map(r => r.results.throughput)),
+        summaryRow('Instructions', runs.map(r => String(r.results.instructions.length))),
+    ].join('\n');
+
+    const instrHeaderCells = runs
+        .map(r => `<th colspan="2">${escapeHtml(r.cpuLabel)}</th>`)
+        .join('');
+    const instrSubHeaderCells = runs.map(() => '<th>Lat</th><th>RThr</th>').join('');
+
+    const commandItems = runs
+        .map(r => `<li><strong>${escapeHtml(r.cpuLabel)}:</strong> <code>${escapeHtml(r.results.compileCommand)}</code> → <code>${escapeHtml(r.results.mcaCommand)}</code></li>`)
+        .join('\n');
+
+    const instrRows = alignInstructions(runs).map(row => {
+        const latRank = rankValues(row.perCpu.map(i => (i ? parseFloat(i.latency) : NaN)));
+        const tputRank = rankValues(row.perCpu.map(i => (i ? parseFloat(i.throughput) : NaN)));
+        const cells = row.perCpu.map((instr, i) => {
+            if (!instr) {return '<td class="missing">—</td><td class="missing">—</td>';}
+            return `<td class="${rankClass(i, latRank)}">${escapeHtml(instr.latency)}</td>` +
+                `<td class="${rankClass(i, tputRank)}">${escapeHtml(instr.throughput)}</td>`;
+        }).join('');
+        return `<tr><td class="instruction">${escapeHtml(row.instruction)}</td>${cells}</tr>`;
+    }).join('\n');
+
+    return `<!DOCTYPE html>
+    <html lang="en">
+    <head>
+        <meta charset="UTF-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>LLVM-MCA Comparison</title>
+        <style>
+            body {
+                font-family: var(--vscode-font-family);
+                color: var(--vscode-foreground);
+                background-color: var(--vscode-editor-background);
+                padding: 20px;
+                line-height: 1.6;
+            }
+            h1 {
+                color: #FFA500;
+                border-bottom: 2px solid var(--vscode-panel-border);
+                padding-bottom: 10px;
+            }
+            h2 {
+                color: #FFA500;
+                margin-top: 30px;
+                margin-bottom: 15px;
+            }
+            table {
+                width: 100%;
+                border-collapse: collapse;
+                margin: 20px 0;
+                background: var(--vscode-editor-background);
+            }
+            th {
+                background: var(--vscode-editor-inactiveSelectionBackground);
+                padding: 10px 12px;
+                text-align: left;
+                font-weight: 600;
+                border-bottom: 2px solid var(--vscode-panel-border);
+            }
+            th .sub {
+                font-weight: normal;
+                font-size: 0.8em;
+                opacity: 0.7;
+            }
+            td {
+                padding: 8px 12px;
+                border-bottom: 1px solid var(--vscode-panel-border);
+            }
+            tr:hover {
+                background: var(--vscode-list-hoverBackground);
+            }
+            .instruction {
+                font-family: var(--vscode-editor-font-family);
+                font-size: 0.95em;
+                color: var(--vscode-editor-foreground);
+            }
+            td.best {
+                color: #32CD32;
+                font-weight: bold;
+            }
+            td.best::after {
+                content: ' ▲';
+                font-size: 0.8em;
+            }
+            td.worst {
+                color: #FF4500;
+                font-weight: bold;
+            }
+            td.worst::after {
+                content: ' ▼';
+                font-size: 0.8em;
+            }
+            td.missing {
+                opacity: 0.4;
+            }
+            details {
+                margin-top: 20px;
+                border: 1px solid var(--vscode-panel-border);
+                border-radius: 5px;
+                padding: 10px;
+            }
+            summary {
+                cursor: pointer;
+                font-weight: 600;
+            }
+            code {
+                font-family: var(--vscode-editor-font-family);
+                font-size: 0.9em;
+            }
+            .legend {
+                font-size: 0.9em;
+                opacity: 0.8;
+            }
+        </style>
+    </head>
+    <body>
+        <h1> LLVM-MCA CPU Comparison</h1>
+        <p class="legend">Lower is better. <span style="color: #32CD32">▲ best</span> and <span style="color: #FF4500">▼ worst</span> CPU are marked for each metric.</p>
+
+        <h2> Summary</h2>
+        <table>
+            <thead>
+                <tr><th>Metric</th>${headerCells}</tr>
+            </thead>
+            <tbody>
+                ${summaryRows}
+            </tbody>
+        </table>
+
+        <h2> Per-Instruction Latency / Throughput</h2>
+        <table>
+            <thead>
+                <tr><th rowspan="2">Instruction</th>${instrHeaderCells}</tr>
+                <tr>${instrSubHeaderCells}</tr>
+            </thead>
+            <tbody>
+                ${instrRows}
+            </tbody>
+        </table>
+
+        <details>
+            <summary> Toolchain Commands</summary>
+            <ul>
+                ${commandItems}
+            </ul>
+        </details>
+    </body>
+    </html>`;
+}
@@ -0,0 +1,213 @@
+/*
+ * Copyright (c) 2025, VectorCamp PC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import * as vscode from 'vscode';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { InheritedFlags } from './types';
+
+const DATABASE_NAME = 'compile_commands.json';
+
+// Where CMake, Meson and Bear usually leave the database, relative to a workspace folder
+const DATABASE_LOCATIONS = [DATABASE_NAME, `build/${DATABASE_NAME}`, `out/${DATABASE_NAME}`, `builddir/${DATABASE_NAME}`];
+
+interface CompileCommand {
+    directory: string;
+    file: string;
+    command?: string;
+    arguments?: string[];
+}
+
+interface CompileDatabase {
+    mtimeMs: number;
+    commands: CompileCommand[];
+}
+
+const databases = new Map<string, CompileDatabase>();
+
+// Split a shell command line the way the build system wrote it into the database
+export function splitCommandLine(command: string): string[] {
+    const args: string[] = [];
+    let current = '';
+    let inArg = false;
+    let quote: string | null = null;
+
+    for (let i = 0; i < command.length; i++) {
+        const ch = command[i];
+        if (quote) {
+            if (ch === quote) {
+                quote = null;
+            } else if (ch === '\\' && quote === '"' && i + 1 < command.length) {
+                current += command[++i];
+            } else {
+                current += ch;
+            }
+        } else if (ch === '"' || ch === "'") {
+            quote = ch;
+            inArg = true;
+        } else if (ch === '\\' && i + 1 < command.length) {
+            current += command[++i];
+            inArg = true;
+        } else if (/\s/.test(ch)) {
+            if (inArg) {
+                args.push(current);
+                current = '';
+                inArg = false;
+            }
+        } else {
+            current += ch;
+            inArg = true;
+        }
+    }
+    if (inArg) {
+        args.push(current);
+    }
+    return args;
+}
+
+// Flags that take their value as the next argument when not joined
+const INCLUDE_FLAGS = ['-I', '-isystem', '-iquote', '-idirafter'];
+const MACRO_FLAGS = ['-D', '-U'];
+
+// The CPU chosen for the analysis sets these, and -m32 and friends change the ABI
+const IGNORED_TARGET_FLAGS = /^-m(arch|cpu|tune)=|^-m(16|32|64|x32)$/;
+
+// -I, -D, -std and, when compiling for the project's own architecture, -m
+// feature flags such as -mavx2 or -mfpu=neon. Include paths are made absolute.
+export function extractFlags(args: string[], directory: string, includeTargetFlags: boolean): string[] {
+    const flags: string[] = [];
+    const absolute = (dir: string) => path.resolve(directory, dir);
+
+    for (let i = 1; i < args.length; i++) {
+        const arg = args[i];
+
+        const includeFlag = INCLUDE_FLAGS.find(f => arg.startsWith(f));
+        if (includeFlag) {
+            const value = arg.length > includeFlag.length ? arg.slice(includeFlag.length) : args[++i];
+            if (value === undefined) {continue;}
+            if (includeFlag === '-I') {
+                flags.push(`-I${absolute(value)}`);
+            } else {
+                flags.push(includeFlag, absolute(value));
+            }
+        } else if (MACRO_FLAGS.some(f => arg.startsWith(f))) {
+            const value = arg.length > 2 ? arg.slice(2) : args[++i];
+            if (value !== undefined) {
+                flags.push(`${arg.slice(0, 2)}${value}`);
+            }
+        } else if (arg.startsWith('-std=')) {
+            // The snippet is always compiled as C++, which rejects C standards
+            if (/^-std=(c|gnu)\+\+/.test(arg)) {
+                flags.push(arg);
+            }
+        } else if (arg === '-mllvm') {
+            i++;
+        } else if (includeTargetFlags && /^-m[\w-]/.test(arg) && !IGNORED_TARGET_FLAGS.test(arg)) {
+            flags.push(arg);
+        }
+    }
+    return flags;
+}
+
+function getCommandArgs(command: CompileCommand): string[] {
+    return command.arguments ?? splitCommandLine(command.command ?? '');
+}
+
+async function findDatabase(sourceFile: string): Promise<string | undefined> {
+    const scope = vscode.Uri.file(sourceFile);
+    const folder = vscode.workspace.getWorkspaceFolder(scope);
+    const configured = vscode.workspace.getConfiguration('code.simd.info', scope).get<string>('compileCommandsPath', '').trim();
+
+    const candidates = configured
+        ? [configured.replace(/\$\{workspaceFolder\}/g, folder?.uri.fsPath ?? '')]
+        : DATABASE_LOCATIONS;
+
+    for (const candidate of candidates) {
+        let file = path.isAbsolute(candidate) ? candidate : folder ? path.join(folder.uri.fsPath, candidate) : undefined;
+        if (!file) {continue;}
+        try {
+            // A directory setting means the database inside it
+            if ((await fs.stat(file)).isDirectory()) {
+                file = path.join(file, DATABASE_NAME);
+            }
+            await fs.access(file);
+            return file;
+        } catch {
+            // Try the next location
+        }
+    }
+    if (configured) {
+        console.warn(`compile_commands.json not found at ${configured}`);
+    }
+    return undefined;
+}
+
+async function loadDatabase(file: string): Promise<CompileCommand[]> {
+    const { mtimeMs } = await fs.stat(file);
+    const cached = databases.get(file);
+    if (cached && cached.mtimeMs === mtimeMs) {
+        return cached.commands;
+    }
+
+    const commands = JSON.parse(await fs.readFile(file, 'utf-8'));
+    if (!Array.isArray(commands)) {
+        throw new Error(`${file} is not a JSON compilation database`);
+    }
+    databases.set(file, { mtimeMs, commands });
+    return commands;
+}
+
+// The source file's own entry, or for headers and new files the entry closest
+// to it in the directory tree, whose -I and -D are most likely to apply
+function findEntry(commands: CompileCommand[], sourceFile: string): CompileCommand | undefined {
+    const target = path.resolve(sourceFile);
+    const targetDirs = path.dirname(target).split(path.sep);
+    let best: CompileCommand | undefined;
+    let bestShared = -1;
+
+    for (const command of commands) {
+        const file = path.resolve(command.directory, command.file);
+        if (file === target) {return command;}
+
+        // Number of leading directories the two paths have in common
+        const dirs = path.dirname(file).split(path.sep);
+        let shared = 0;
+        while (shared < dirs.length && shared < targetDirs.length && dirs[shared] === targetDirs[shared]) {
+            shared++;
+        }
+        if (shared > bestShared) {
+            best = command;
+            bestShared = shared;
+        }
+    }
+    return best;
+}
+
+// Flags the project compiles the source file with, if a compilation database is found
+export async function getInheritedFlags(sourceFile: string, includeTargetFlags: boolean): Promise<InheritedFlags | undefined> {
+    const database = await findDatabase(sourceFile);
+    if (!database) {return undefined;}
+
+    try {
+        const entry = findEntry(await loadDatabase(database), sourceFile);
+        if (!entry) {return undefined;}
+
+        const flags = extractFlags(getCommandArgs(entry), entry.directory, includeTargetFlags);
+        return { database, file: path.resolve(entry.directory, entry.file), flags };
+    } catch (e) {
+        console.warn(`Failed to read ${database}:`, e);
+        return undefined;
+    }
+}
@@ -0,0 +1,128 @@
+/*
+ * Copyright (c) 2025, VectorCamp PC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import * as path from 'path';
+import { CpuConfig } from './types';
+import { runProcess } from './process';
+
+export type CompilerKind = 'clang' | 'gcc';
+
+// GNU triples cross gcc binaries are usually prefixed with, per registered LLVM target
+const GCC_TRIPLES: Record<string, string> = {
+    'x86-64': 'x86_64-linux-gnu',
+    'aarch64': 'aarch64-linux-gnu',
+    'arm': 'arm-linux-gnueabihf',
+    'ppc64le': 'powerpc64le-linux-gnu',
+    'riscv64': 'riscv64-linux-gnu',
+    'loongarch64': 'loongarch64-linux-gnu',
+    'systemz': 's390x-linux-gnu',
+};
+
+// clang-only -march spellings and the GCC name for the same CPU
+const GCC_X86_ARCH_ALIASES: Record<string, string> = {
+    'core-avx2': 'haswell',
+    'core-avx-i': 'ivybridge',
+    'corei7-avx': 'sandybridge',
+    'slm': 'silvermont',
+};
+
+// "gcc-13" for aarch64 becomes "aarch64-linux-gnu-gcc-13", next to the native one
+export function getGccCrossCompiler(gccPath: string, llvmTarget: string): string | undefined {
+    const triple = GCC_TRIPLES[llvmTarget];
+    if (!triple) {return undefined;}
+    const dir = path.dirname(gccPath);
+    const name = `${triple}-${path.basename(gccPath)}`;
+    return dir === '.' ? name : path.join(dir, name);
+}
+
+export function getGccCrossTargets(): string[] {
+    return Object.keys(GCC_TRIPLES);
+}
+
+// Flags selecting the CPU to compile for. `llvmTarget` is the target actually
+// compiled for, which for "native" is the host's.
+export function getCpuFlags(kind: CompilerKind, config: CpuConfig, llvmTarget: string): string[] {
+    if (kind === 'clang') {
+        if (config.useNative) {return ['-march=native'];}
+        // x86 uses -march, ARM and PowerPC use -mcpu
+        if (config.march) {return [`-march=${config.march}`];}
+        return config.mcpu ? [`-mcpu=${config.mcpu}`] : [];
+    }
+
+    if (config.useNative) {
+        // GCC only accepts -march=native on x86; elsewhere it is -mcpu=native
+        return [llvmTarget === 'x86-64' ? '-march=native' : '-mcpu=native'];
+    }
+    if (config.march) {
+        return [`-march=${GCC_X86_ARCH_ALIASES[config.march] ?? config.march}`];
+    }
+    if (!config.mcpu) {return [];}
+
+    if (llvmTarget === 'ppc64le') {
+        // LLVM's pwr9 is GCC's power9
+        return [`-mcpu=${config.mcpu.replace(/^pwr/, 'power')}`];
+    }
+    if (llvmTarget === 'arm') {
+        // 32-bit GCC does not enable NEON from -mcpu alone
+        return [`-mcpu=${config.mcpu}`, '-mfpu=neon'];
+    }
+    return [`-mcpu=${config.mcpu}`];
+}
+
+// The CPU name GCC rejected, from e.g. "bad value 'graniterapids-d' for '-march=' switch"
+// (x86) or "unknown value 'foo' for '-mcpu'" (Arm)
+export function findUnknownGccCpu(stderr: string): string | undefined {
+    return stderr.match(/(?:bad|unknown) value \(?'([^']+)'\)? for '-m(?:arch|cpu|tune)=?'/)?.[1];
+}
+
+// Whether instructions inlined from headers can take the line of their call
+// site. GCC's -g1 line tables have no call sites, see forEachSourceInstruction.
+export function hasInlineCallSites(kind: CompilerKind): boolean {
+    return kind === 'clang';
+}
+
+// Debug info just detailed enough for .loc line mapping
+export function getLineTableFlags(kind: CompilerKind): string[] {
+    return kind === 'clang' ? ['-gline-tables-only'] : ['-g1'];
+}
+
+// Cross-compilation flags. Clang cross-compiles with --target and only has its
+// builtin headers; a cross gcc is its own binary and ships with a sysroot.
+export function getCrossFlags(kind: CompilerKind, config: CpuConfig): string[] {
+    if (kind !== 'clang') {return [];}
+    // -ffreestanding keeps stdint.h from chaining to the missing libc one
+    return [`--target=${config.target}`, '-ffreestanding', '-nostdlibinc'];
+}
+
+const compilerVersions = new Map<string, Promise<string>>();
+
+// First line of `<compiler> --version`, e.g. "gcc (Ubuntu 13.2.0-23ubuntu4) 13.2.0"
+export function getCompilerVersion(executable: string): Promise<string> {
+    let version = compilerVersions.get(executable);
+    if (!version) {
+        const run = runProcess(executable, ['--version'], { timeoutMs: 10000 })
+            .then(({ stdout }) => stdout.split('\n')[0].trim() || executable)
+            .catch(() => {
+                // Asked again next time, the compiler may be installed or fixed by then
+                if (compilerVersions.get(executable) === run) {
+                    compilerVersions.delete(executable);
+                }
+                return executable;
+            });
+        compilerVersions.set(executable, run);
+        version = run;
+    }
+    return version;
+}
@@ -0,0 +1,348 @@
+/*
+ * Copyright (c) 2025, VectorCamp PC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import * as vscode from 'vscode';
+import * as os from 'os';
+import { CpuConfig } from './types';
+import { ToolchainSettings, forgetFailure, getCompilerExecutable, getLlvmMcaVersion, getRegisteredTargets } from './toolchain';
+import { getCompilerVersion, getCpuFlags, getCrossFlags } from './compilers';
+import { ProcessError, runProcess } from './process';
+
+// v2: catalogs discovered for GCC only list the CPUs GCC accepts
+// v3: catalogs without cross targets after a failed probe are no longer saved
+const CATALOG_KEY = 'mcaCpuCatalog.v3';
+const MAX_CACHED_CATALOGS = 4;
+const PROBE_TIMEOUT_MS = 10000;
+const PROBE_CONCURRENCY = 4;
+
+export type CpuCatalog = { [key: string]: CpuConfig };
+
+// CPUs we know the ISA level of, per registered LLVM target. Used as is when
+// the installed LLVM cannot be queried, and to skip probing CPUs it lists.
+// CPUs too new for older llvm-mca releases (znver6, novalake) are left to
+// discovery, which only finds them where they are supported.
+const KNOWN_CPUS: { [llvmTarget: string]: { [level: string]: string[] } } = {
+    'x86-64': {
+        "AVX512": [
+            "cascadelake", "cannonlake", "cooperlake", "icelake-server", "icelake-client",
+            "tigerlake", "rocketlake", "sapphirerapids", "emeraldrapids", "graniterapids",
+            "graniterapids-d", "diamondrapids", "znver4", "znver5",
+        ],
+        "AVX2": [
+            "haswell", "core-avx2", "broadwell", "skylake", "alderlake", "raptorlake",
+            "meteorlake", "gracemont", "arrowlake", "arrowlake-s", "lunarlake",
+            "pantherlake", "wildcatlake", "sierraforest", "grandridge",
+            "clearwaterforest", "bdver4", "znver1", "znver2", "znver3"
+        ],
+        "AVX": [
+            "sandybridge", "corei7-avx", "ivybridge", "core-avx-i", "bdver1",
+            "bdver2", "bdver3", "lujiazui"
+        ],
+        "SSE": [
+            "x86-64", "x86-64-v2", "x86-64-v3", "x86-64-v4", "pentium3m", "pentium-m",
+            "pentium4", "pentium4m", "prescott", "nocona", "core2", "nehalem",
+            "corei7", "westmere", "bonnell", "atom", "silvermont", "slm", "goldmont",
+            "goldmont-plus", "tremont", "athlon", "athlon-tbird", "athlon-4",
+            "athlon-xp", "athlon-mp", "k8", "opteron", "athlon64", "athlon-fx",
+            "k8-sse3", "opteron-sse3", "athlon64-sse3", "amdfam10", "barcelona",
+            "btver1", "btver2", "c3-2", "c7", "nehemiah", "esther", "eden-x2",
+            "nano", "nano-1000", "nano-2000", "nano-3000", "nano-x2", "nano-x4"
+        ],
+    },
+    'aarch64': {
+        "A64": [
+            "cortex-a55", "cortex-a72", "cortex-a73", "cortex-a75", "cortex-a76",
+            "cortex-a77", "cortex-a78", "cortex-x1", "cortex-x2", "cortex-x3",
+            "cortex-a710", "cortex-a715", "neoverse-n1", "neoverse-n2",
+            "neoverse-v1", "neoverse-v2", "ampere1", "ampere1a", "ampere1b",
+        ],
+        // Every -mcpu listed here enables SVE on its own
+        "SVE": ["a64fx", "neoverse-n2", "neoverse-v1", "neoverse-v2"],
+    },
+    'arm': {
+        "A32": ["cortex-a17", "cortex-a53"],
+        "v7": ["cortex-a9", "cortex-a15"],
+    },
+    'ppc64le': { "": ["pwr8", "pwr9", "pwr10"] },
+    'riscv64': { "": ["sifive-x280", "sifive-p670", "spacemit-x60"] },
+    'loongarch64': { "": ["la464", "la664"] },
+    'systemz': { "": ["z13", "z14", "z15", "z16"] },
+};
+
+// Intrinsics headers and the flags enabling the vector extension per registered
+// LLVM target, unless the CPU config names its own. Also used for native.
+export const ARCH_SUPPORT: { [llvmTarget: string]: { headers: string[]; features?: string[] } } = {
+    'x86-64': { headers: ['immintrin.h'] },
+    'aarch64': { headers: ['arm_neon.h'] },
+    'arm': { headers: ['arm_neon.h'] },
+    'ppc64le': { headers: ['altivec.h'] },
+    // -mcpu picks the scheduling model, -march the ISA
+    'riscv64': { headers: ['riscv_vector.h'], features: ['-march=rv64gcv'] },
+    // -mlasx also enables LSX
+    'loongarch64': { headers: ['lsxintrin.h', 'lasxintrin.h'], features: ['-mlasx'] },
+    // z/Architecture vector language extension
+    'systemz': { headers: ['vecintrin.h'], features: ['-mzvector'] },
+};
+
+const NATIVE_CONFIG: CpuConfig = {
+    label: 'Native (Auto-detect)',
+    category: 'Native',
+    useNative: true
+};
+
+// Key and config of one CPU at the given ISA level of its LLVM target
+function makeCpuConfig(llvmTarget: string, level: string, cpu: string): [string, CpuConfig] | undefined {
+    switch (llvmTarget) {
+        case 'x86-64':
+            // x86 uses -march instead of -mcpu
+            return [`x86-${cpu}`, {
+                label: cpu, category: `x86-64 ${level}`, target: 'x86_64-linux-gnu', llvmTarget, march: cpu, mcpu: cpu
+            }];
+        case 'aarch64':
+            if (level === 'SVE') {
+                // Same target as A64, plus the SVE ACLE header
+                return [`sve-${cpu}`, {
+                    label: cpu, category: 'ARM SVE', target: 'aarch64-linux-gnu', llvmTarget, mcpu: cpu,
+                    headers: ['arm_neon.h', 'arm_sve.h']
+                }];
+            }
+            return [`arm-${cpu}`, { label: cpu, category: `ARM ${level}`, target: 'aarch64-linux-gnu', llvmTarget, mcpu: cpu }];
+        case 'arm':
+            return [`arm-${cpu}`, { label: cpu, category: `ARM ${level}`, target: 'armv7a-linux-gnueabihf', llvmTarget, mcpu: cpu }];
+        case 'ppc64le':
+            return [`power-${cpu}`, { label: cpu, category: 'PowerPC', target: 'powerpc64le-linux-gnu', llvmTarget, mcpu: cpu }];
+        case 'riscv64':
+            return [`riscv-${cpu}`, { label: cpu, category: 'RISC-V RVV', target: 'riscv64-linux-gnu', llvmTarget, mcpu: cpu }];
+        case 'loongarch64':
+            // LoongArch and IBM Z use -march
+            return [`loongarch-${cpu}`, {
+                label: cpu, category: 'LoongArch LSX/LASX', target: 'loongarch64-linux-gnu', llvmTarget, march: cpu, mcpu: cpu
+            }];
+        case 'systemz':
+            return [`z-${cpu}`, { label: cpu, category: 'IBM Z', target: 's390x-linux-gnu', llvmTarget, march: cpu, mcpu: cpu }];
+    }
+    return undefined;
+}
+
+function addCpu(catalog: CpuCatalog, llvmTarget: string, level: string, cpu: string) {
+    const entry = makeCpuConfig(llvmTarget, level, cpu);
+    if (entry) {
+        catalog[entry[0]] = entry[1];
+    }
+}
+
+// The built-in catalog, for when the toolchain cannot be queried
+export function getStaticCpuCatalog(): CpuCatalog {
+    const catalog: CpuCatalog = { native: NATIVE_CONFIG };
+    for (const [llvmTarget, levels] of Object.entries(KNOWN_CPUS)) {
+        for (const [level, cpus] of Object.entries(levels)) {
+            for (const cpu of cpus) {
+                addCpu(catalog, llvmTarget, level, cpu);
+            }
+        }
+    }
+    return catalog;
+}
+
+// CPU names from the "Available CPUs for this target:" block of `-mcpu=help`
+export function parseCpuHelp(output: string): string[] {
+    const start = output.indexOf('Available CPUs for this target:');
+    if (start === -1) {return [];}
+
+    const cpus: string[] = [];
+    for (const line of output.slice(start).split('\n').slice(1)) {
+        if (/^Available features/.test(line)) {break;}
+        const match = line.match(/^\s+(\S+)\s+-\s/);
+        if (match) {
+            cpus.push(match[1]);
+        }
+    }
+    return cpus;
+}
+
+// The ISA levels a CPU the catalog does not know belongs to, from the macros
+// the compiler predefines for it. No levels means it has no usable SIMD unit.
+function classifyCpu(llvmTarget: string, macros: Map<string, string>): string[] {
+    switch (llvmTarget) {
+        case 'x86-64':
+            if (!macros.has('__x86_64__')) {return [];}
+            if (macros.has('__AVX512F__')) {return ['AVX512'];}
+            if (macros.has('__AVX2__')) {return ['AVX2'];}
+            if (macros.has('__AVX__')) {return ['AVX'];}
+            return macros.has('__SSE2__') ? ['SSE'] : [];
+        case 'aarch64':
+            return macros.has('__ARM_FEATURE_SVE') ? ['A64', 'SVE'] : ['A64'];
+        case 'arm':
+            if (!macros.has('__ARM_NEON')) {return [];}
+            return parseInt(macros.get('__ARM_ARCH') ?? '', 10) >= 8 ? ['A32'] : ['v7'];
+        case 'ppc64le':
+            return macros.has('__VSX__') ? [''] : [];
+        case 'riscv64':
+            return macros.has('__riscv_vector') ? [''] : [];
+        case 'loongarch64':
+            return macros.has('__loongarch_sx') ? [''] : [];
+        case 'systemz':
+            return macros.has('__VX__') ? [''] : [];
+    }
+    return [];
+}
+
+function parseMacros(output: string): Map<string, string> {
+    const macros = new Map<string, string>();
+    for (const match of output.matchAll(/^#define (\w+) ?(.*)$/gm)) {
+        macros.set(match[1], match[2]);
+    }
+    return macros;
+}
+
+async function probeCpuLevels(toolchain: ToolchainSettings, hostTarget: string, llvmTarget: string, cpu: string): Promise<string[]> {
+    const config = makeCpuConfig(llvmTarget, '', cpu)![1];
+    const isCross = llvmTarget !== hostTarget;
+    const compiler = getCompilerExecutable(toolchain, llvmTarget, isCross);
+    if (!compiler) {return [];}
+
+    const args = [
+        ...(isCross ? getCrossFlags(toolchain.compiler, config) : []),
+        ...getCpuFlags(toolchain.compiler, config, llvmTarget),
+        '-dM', '-E', '-x', 'c', os.devNull
+    ];
+    try {
+        const { stdout } = await runProcess(compiler, args, { timeoutMs: PROBE_TIMEOUT_MS });
+        return classifyCpu(llvmTarget, parseMacros(stdout));
+    } catch {
+        return []; // The compiler does not know this CPU
+    }
+}
+
+// `llvm-mca -mcpu=help` prints to stderr and exits non-zero once it finds no input
+async function listMcaCpus(toolchain: ToolchainSettings, triple: string): Promise<string[]> {
+    try {
+        const { stdout, stderr } = await runProcess(toolchain.llvmMcaPath, [`-mtriple=${triple}`, '-mcpu=help', os.devNull], { timeoutMs: PROBE_TIMEOUT_MS });
+        return parseCpuHelp(stdout + stderr);
+    } catch (error: any) {
+        if (error instanceof ProcessError) {
+            return parseCpuHelp(error.stdout + error.stderr);
+        }
+        throw error;
+    }
+}
+
+async function mapLimited<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let next = 0;
+    const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+        while (next < items.length) {
+            const i = next++;
+            results[i] = await fn(items[i]);
+        }
+    });
+    await Promise.all(workers);
+    return results;
+}
+
+interface Discovery {
+    catalog: CpuCatalog;
+    // False when the registered targets could not be probed, so only the host's are in
+    complete: boolean;
+}
+
+// Every SIMD CPU llvm-mca has a model for, on the targets the toolchain can compile for
+async function discoverCpus(toolchain: ToolchainSettings, hostTarget: string): Promise<Discovery | null> {
+    const registered = await getRegisteredTargets(toolchain);
+    const targets = Object.keys(KNOWN_CPUS).filter(t => t === hostTarget || registered?.has(t));
+
+    const catalog: CpuCatalog = { native: NATIVE_CONFIG };
+    let found = 0;
+    for (const llvmTarget of targets) {
+        const triple = makeCpuConfig(llvmTarget, '', 'generic')![1].target!;
+        const cpus = await listMcaCpus(toolchain, triple);
+        found += cpus.length;
+
+        const levels = await mapLimited(cpus, PROBE_CONCURRENCY, async cpu => {
+            const known = Object.entries(KNOWN_CPUS[llvmTarget]).filter(([, list]) => list.includes(cpu)).map(([level]) => level);
+            if (!known.length) {
+                return probeCpuLevels(toolchain, hostTarget, llvmTarget, cpu);
+            }
+            // GCC lacks many of the CPU names LLVM has; offer only the ones it accepts
+            if (toolchain.compiler === 'gcc' && !(await probeCpuLevels(toolchain, hostTarget, llvmTarget, cpu)).length) {
+                return [];
+            }
+            return known;
+        });
+        cpus.forEach((cpu, i) => levels[i].forEach(level => addCpu(catalog, llvmTarget, level, cpu)));
+    }
+
+    // llvm-mca answered nothing useful, most likely it is not installed
+    return found ? { catalog, complete: registered !== null } : null;
+}
+
+let storage: vscode.Memento | undefined;
+const catalogs = new Map<string, Promise<CpuCatalog>>();
+
+export function initCpuCatalog(context: vscode.ExtensionContext) {
+    storage = context.globalState;
+}
+
+// The CPU targets of the installed toolchain, discovered once per compiler and
+// llvm-mca version and remembered across sessions. Falls back to the built-in list.
+// Neither the fallback nor a catalog missing the cross targets is remembered, so
+// discovery is tried again on the next call.
+export function getCpuCatalog(toolchain: ToolchainSettings, hostTarget: string): Promise<CpuCatalog> {
+    const compilerPath = toolchain.compiler === 'clang' ? toolchain.compilerPath : toolchain.gccPath;
+    const sessionKey = `${compilerPath}|${toolchain.llvmMcaPath}|${hostTarget}`;
+
+    let catalog = catalogs.get(sessionKey);
+    if (!catalog) {
+        let fellBack = false;
+        const lookup = (async () => {
+            const [mcaVersion, compilerVersion] = await Promise.all([
+                getLlvmMcaVersion(toolchain), getCompilerVersion(compilerPath)
+            ]);
+            if (!mcaVersion) {
+                fellBack = true;
+                return getStaticCpuCatalog();
+            }
+
+            const versionKey = `${compilerVersion}|${mcaVersion}|${hostTarget}`;
+            const stored = storage?.get<{ [versionKey: string]: CpuCatalog }>(CATALOG_KEY) ?? {};
+            if (stored[versionKey]) {return stored[versionKey];}
+
+            const discovery = discoverCpus(toolchain, hostTarget);
+            vscode.window.setStatusBarMessage('$(sync~spin) Discovering LLVM-MCA CPU targets...', discovery);
+            const discovered = await discovery.catch(e => {
+                console.warn('Failed to discover LLVM-MCA CPU targets:', e);
+                return null;
+            });
+            if (!discovered) {
+                fellBack = true;
+                return getStaticCpuCatalog();
+            }
+            if (!discovered.complete) {
+                // Usable for now, but the cross targets are worth another try later
+                fellBack = true;
+                return discovered.catalog;
+            }
+
+            const kept = Object.entries(stored).filter(([key]) => key !== versionKey).slice(-(MAX_CACHED_CATALOGS - 1));
+            await storage?.update(CATALOG_KEY, Object.fromEntries([...kept, [versionKey, discovered.catalog]]));
+            console.log(`Discovered ${Object.keys(discovered.catalog).length - 1} LLVM-MCA CPU targets for ${mcaVersion}`);
+            return discovered.catalog;
+        })();
+        catalogs.set(sessionKey, lookup);
+        void lookup.then(() => forgetFailure(catalogs, sessionKey, lookup, fellBack), () => forgetFailure(catalogs, sessionKey, lookup, true));
+        catalog = lookup;
+    }
+    return catalog;
+}
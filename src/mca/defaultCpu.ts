@@ -0,0 +1,108 @@
+/*
+ * Copyright (c) 2025, VectorCamp PC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import * as vscode from 'vscode';
+import { McaEstimateTarget } from './codelens';
+
+const SETTING = 'mcaDefaultCpu';
+const LANGUAGES = ['c', 'cpp'];
+
+interface ScopeQuickPickItem extends vscode.QuickPickItem {
+    target: vscode.ConfigurationTarget;
+    overrideInLanguage: boolean;
+}
+
+// Where the setting currently comes from, most specific first
+function describeSource(document: vscode.TextDocument): string {
+    const inspected = vscode.workspace.getConfiguration('code.simd.info', document).inspect<string>(SETTING);
+    if (inspected?.workspaceFolderLanguageValue !== undefined || inspected?.workspaceLanguageValue !== undefined) {
+        return `workspace, ${document.languageId} files`;
+    }
+    if (inspected?.workspaceFolderValue !== undefined || inspected?.workspaceValue !== undefined) {
+        return 'workspace';
+    }
+    if (inspected?.globalLanguageValue !== undefined) {
+        return `user, ${document.languageId} files`;
+    }
+    return inspected?.globalValue !== undefined ? 'user' : 'default';
+}
+
+// Save the CPU as mcaDefaultCpu, asking whether it is for the workspace, only
+// the document's language in it, or every workspace
+export async function saveDefaultCpu(document: vscode.TextDocument, cpuKey: string, cpuLabel: string): Promise<boolean> {
+    const hasWorkspace = !!vscode.workspace.workspaceFolders?.length;
+    const items: ScopeQuickPickItem[] = [
+        ...(hasWorkspace ? [
+            { label: 'This workspace', target: vscode.ConfigurationTarget.Workspace, overrideInLanguage: false },
+            { label: `This workspace, ${document.languageId} files only`, target: vscode.ConfigurationTarget.Workspace, overrideInLanguage: true },
+        ] : []),
+        { label: 'All workspaces', description: 'User settings', target: vscode.ConfigurationTarget.Global, overrideInLanguage: false },
+    ];
+
+    const picked = await vscode.window.showQuickPick(items, {
+        placeHolder: `Use ${cpuLabel} as the default LLVM-MCA CPU for`,
+        title: 'Default LLVM-MCA CPU Target'
+    });
+    if (!picked) {return false;}
+
+    await vscode.workspace.getConfiguration('code.simd.info', document)
+        .update(SETTING, cpuKey, picked.target, picked.overrideInLanguage);
+    return true;
+}
+
+// Shows the default CPU next to the highlight mode item; clicking it switches CPUs
+export class DefaultCpuStatusBar {
+    private readonly item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 99);
+    private version = 0;
+
+    constructor(private readonly getTarget: (document: vscode.TextDocument) => Promise<McaEstimateTarget | undefined>) {
+        this.item.command = 'code.simd.ai.selectDefaultCpu';
+    }
+
+    async update() {
+        // Resolving the CPU may run discovery; only the latest editor's answer counts,
+        // including an editor that hides the item
+        const version = ++this.version;
+        const document = vscode.window.activeTextEditor?.document;
+        const enabled = document && LANGUAGES.includes(document.languageId) &&
+            vscode.workspace.getConfiguration('code.simd.info', document).get<boolean>('enableLLVM', false);
+        if (!enabled) {
+            this.item.hide();
+            return;
+        }
+
+        const target = await this.getTarget(document);
+        if (version !== this.version) {return;}
+
+        this.item.text = `$(chip) ${target?.label ?? 'No CPU'}`;
+        this.item.tooltip = target
+            ? `Default LLVM-MCA CPU target (${describeSource(document)}). Click to switch.`
+            : 'The mcaDefaultCpu setting does not name a known CPU. Click to choose one.';
+        this.item.show();
+    }
+
+    register(context: vscode.ExtensionContext) {
+        context.subscriptions.push(
+            this.item,
+            vscode.window.onDidChangeActiveTextEditor(() => this.update()),
+            vscode.workspace.onDidChangeConfiguration(e => {
+                if (e.affectsConfiguration(`code.simd.info.${SETTING}`) || e.affectsConfiguration('code.simd.info.enableLLVM')) {
+                    this.update();
+                }
+            })
+        );
+        this.update();
+    }
+}
@@ -0,0 +1,216 @@
+/*
+ * Copyright (c) 2025, VectorCamp PC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+export const DIAGNOSTIC_SOURCE_SUFFIX = '(LLVM-MCA)';
+
+// Positions are 0-based and relative to the first line of the analyzed snippet.
+// A negative line means the problem is in the prelude analyzeMca generated.
+export interface SnippetPosition {
+    line: number;
+    character: number;
+}
+
+export interface ClangFixIt {
+    start: SnippetPosition;
+    end: SnippetPosition;
+    replacement: string;
+}
+
+export interface ClangDiagnostic {
+    severity: 'error' | 'warning' | 'note';
+    position: SnippetPosition;
+    message: string;
+    fixIts: ClangFixIt[];
+    notes: ClangDiagnostic[];
+}
+
+export class McaCompileError extends Error {
+    constructor(message: string, public readonly diagnostics: ClangDiagnostic[], public readonly compiler = 'clang') {
+        super(message);
+        this.name = 'McaCompileError';
+    }
+}
+
+export function toSnippetPosition(line: string, col: string, headerLines: number): SnippetPosition {
+    return {
+        line: parseInt(line, 10) - headerLines - 1,
+        character: Math.max(0, parseInt(col, 10) - 1)
+    };
+}
+
+// Fix-it replacements are printed as escaped C string literals
+function unescapeFixIt(text: string): string {
+    try {
+        return JSON.parse(`"${text}"`);
+    } catch {
+        return text;
+    }
+}
+
+// Parse "file:line:col: error: message" lines plus -fdiagnostics-parseable-fixits
+// output, keeping only what points into the compiled source file. GCC prints
+// both in the same format as clang.
+export function parseClangDiagnostics(stderr: string, sourceFile: string, headerLines: number): ClangDiagnostic[] {
+    const diagnostics: ClangDiagnostic[] = [];
+    let last: ClangDiagnostic | undefined;
+
+    for (const line of stderr.split('\n')) {
+        const diagMatch = line.match(/^(.*?):(\d+):(\d+):\s+(fatal error|error|warning|note):\s+(.*)$/);
+        if (diagMatch) {
+            if (path.basename(diagMatch[1]) !== sourceFile) {
+                // Problems inside system headers are reported on the snippet's first line
+                if (diagMatch[4] === 'error' || diagMatch[4] === 'fatal error') {
+                    last = {
+                        severity: 'error',
+                        position: { line: 0, character: 0 },
+                        message: `${path.basename(diagMatch[1])}:${diagMatch[2]}: ${diagMatch[5]}`,
+                        fixIts: [],
+                        notes: []
+                    };
+                    diagnostics.push(last);
+                }
+                continue;
+            }
+
+            const severity = diagMatch[4] === 'fatal error' ? 'error' : diagMatch[4] as ClangDiagnostic['severity'];
+            const diag: ClangDiagnostic = {
+                severity,
+                position: toSnippetPosition(diagMatch[2], diagMatch[3], headerLines),
+                message: diagMatch[5],
+                fixIts: [],
+                notes: []
+            };
+            if (severity === 'note' && last) {
+                last.notes.push(diag);
+            } else if (severity !== 'note') {
+                diagnostics.push(diag);
+                last = diag;
+            }
+            continue;
+        }
+
+        const fixMatch = line.match(/^fix-it:"(.*?)":\{(\d+):(\d+)-(\d+):(\d+)\}:"(.*)"$/);
+        if (fixMatch && last && path.basename(fixMatch[1]) === sourceFile) {
+            last.fixIts.push({
+                start: toSnippetPosition(fixMatch[2], fixMatch[3], headerLines),
+                end: toSnippetPosition(fixMatch[4], fixMatch[5], headerLines),
+                replacement: unescapeFixIt(fixMatch[6])
+            });
+        }
+    }
+
+    return diagnostics;
+}
+
+// Move every position of the diagnostics, their notes and fix-its
+export function mapDiagnosticPositions(
+    diagnostics: ClangDiagnostic[],
+    map: (position: SnippetPosition) => SnippetPosition
+): ClangDiagnostic[] {
+    return diagnostics.map(d => ({
+        ...d,
+        position: map(d.position),
+        fixIts: d.fixIts.map(fix => ({ ...fix, start: map(fix.start), end: map(fix.end) })),
+        notes: mapDiagnosticPositions(d.notes, map)
+    }));
+}
+
+export class McaDiagnostics implements vscode.CodeActionProvider {
+    private readonly collection = vscode.languages.createDiagnosticCollection('simd-mca');
+    private readonly fixes = new Map<string, vscode.TextEdit[]>();
+
+    private static key(uri: vscode.Uri, diagnostic: vscode.Diagnostic): string {
+        return `${uri.toString()}|${diagnostic.range.start.line}:${diagnostic.range.start.character}|${diagnostic.message}`;
+    }
+
+    private toRange(document: vscode.TextDocument, baseLine: number, start: SnippetPosition, end?: SnippetPosition): vscode.Range {
+        const clamp = (pos: SnippetPosition) => document.validatePosition(
+            new vscode.Position(Math.max(baseLine, baseLine + pos.line), pos.line < 0 ? 0 : pos.character)
+        );
+        const startPos = clamp(start);
+        const endPos = end ? clamp(end) : document.getWordRangeAtPosition(startPos)?.end ?? startPos;
+        return new vscode.Range(startPos, endPos);
+    }
+
+    publish(document: vscode.TextDocument, baseLine: number, diagnostics: ClangDiagnostic[], compiler = 'clang') {
+        this.clear(document.uri);
+
+        const items = diagnostics.map(d => {
+            const range = this.toRange(document, baseLine, d.position);
+            const message = d.position.line < 0 ? `${d.message} (in generated prelude)` : d.message;
+            const diagnostic = new vscode.Diagnostic(
+                range,
+                message,
+                d.severity === 'error' ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning
+            );
+            diagnostic.source = `${compiler} ${DIAGNOSTIC_SOURCE_SUFFIX}`;
+            diagnostic.relatedInformation = d.notes.map(n => new vscode.DiagnosticRelatedInformation(
+                new vscode.Location(document.uri, this.toRange(document, baseLine, n.position)),
+                n.message
+            ));
+
+            const edits = d.fixIts
+                .filter(f => f.start.line >= 0)
+                .map(f => new vscode.TextEdit(this.toRange(document, baseLine, f.start, f.end), f.replacement));
+            if (edits.length) {
+                this.fixes.set(McaDiagnostics.key(document.uri, diagnostic), edits);
+            }
+            return diagnostic;
+        });
+
+        this.collection.set(document.uri, items);
+    }
+
+    clear(uri: vscode.Uri) {
+        this.collection.delete(uri);
+        for (const key of [...this.fixes.keys()]) {
+            if (key.startsWith(`${uri.toString()}|`)) {
+                this.fixes.delete(key);
+            }
+        }
+    }
+
+    provideCodeActions(document: vscode.TextDocument, _range: vscode.Range, context: vscode.CodeActionContext): vscode.CodeAction[] {
+        const actions: vscode.CodeAction[] = [];
+        for (const diagnostic of context.diagnostics) {
+            if (!diagnostic.source?.endsWith(DIAGNOSTIC_SOURCE_SUFFIX)) {continue;}
+            const edits = this.fixes.get(McaDiagnostics.key(document.uri, diagnostic));
+            if (!edits) {continue;}
+
+            const action = new vscode.CodeAction(`Apply clang fix-it: ${diagnostic.message}`, vscode.CodeActionKind.QuickFix);
+            action.edit = new vscode.WorkspaceEdit();
+            action.edit.set(document.uri, edits);
+            action.diagnostics = [diagnostic];
+            action.isPreferred = true;
+            actions.push(action);
+        }
+        return actions;
+    }
+
+    register(context: vscode.ExtensionContext) {
+        context.subscriptions.push(
+            this.collection,
+            vscode.languages.registerCodeActionsProvider(
+                [{ language: 'c' }, { language: 'cpp' }],
+                this,
+                { providedCodeActionKinds: [vscode.CodeActionKind.QuickFix] }
+            ),
+            vscode.workspace.onDidCloseTextDocument(doc => this.clear(doc.uri))
+        );
+    }
+}
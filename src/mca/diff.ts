@@ -0,0 +1,246 @@
+/*
+ * Copyright (c) 2025, VectorCamp PC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { McaInstruction, McaResults } from './types';
+import { McaHistoryEntry, describeRun } from './history';
+import { escapeHtml } from '../utils/html';
+
+type DiffOp = ' ' | '+' | '-';
+
+interface InstructionDiffLine {
+    op: DiffOp;
+    instruction: string;
+    before?: McaInstruction;
+    after?: McaInstruction;
+}
+
+function normalize(instruction: string): string {
+    return instruction.replace(/\s+/g, ' ').trim();
+}
+
+// Longest-common-subsequence diff of the two instruction streams
+export function diffInstructions(before: McaInstruction[], after: McaInstruction[]): InstructionDiffLine[] {
+    const a = before.map(i => normalize(i.instruction));
+    const b = after.map(i => normalize(i.instruction));
+    const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+
+    const lines: InstructionDiffLine[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+        if (i < a.length && j < b.length && a[i] === b[j]) {
+            lines.push({ op: ' ', instruction: a[i], before: before[i++], after: after[j++] });
+        } else if (j < b.length && (i === a.length || lcs[i][j + 1] > lcs[i + 1][j])) {
+            lines.push({ op: '+', instruction: b[j], after: after[j++] });
+        } else {
+            lines.push({ op: '-', instruction: a[i], before: before[i++] });
+        }
+    }
+    return lines;
+}
+
+function totalUops(results: McaResults): number {
+    return results.instructions.reduce((sum, i) => sum + (parseFloat(i.uops) || 0), 0);
+}
+
+// Lower is better for every metric, so a negative delta is an improvement
+function deltaCell(before: number, after: number): string {
+    if (isNaN(before) || isNaN(after)) {return '<td class="missing">—</td>';}
+    const delta = Math.round((after - before) * 100) / 100;
+    if (delta === 0) {return '<td>±0</td>';}
+
+    const percent = before ? ` (${delta > 0 ? '+' : ''}${(delta / before * 100).toFixed(1)}%)` : '';
+    const cls = delta < 0 ? 'better' : 'worse';
+    return `<td class="${cls}">${delta > 0 ? '+' : ''}${delta}${percent}</td>`;
+}
+
+function metricRow(label: string, before: string, after: string): string {
+    return `<tr><th>${label}</th><td>${escapeHtml(before)}</td><td>${escapeHtml(after)}</td>${deltaCell(parseFloat(before), parseFloat(after))}</tr>`;
+}
+
+function regionRows(before: McaResults, after: McaResults): string {
+    const names = [...new Set([...before.regions, ...after.regions].map(r => r.name))];
+    if (names.length < 2 && !names[0]) {return '';}
+
+    return names.map(name => {
+        const b = before.regions.find(r => r.name === name);
+        const a = after.regions.find(r => r.name === name);
+        return `<tr><td>${escapeHtml(name || '(whole snippet)')}</td>` +
+            `<td>${b ? escapeHtml(b.latency) : '—'}</td><td>${a ? escapeHtml(a.latency) : '—'}</td>` +
+            deltaCell(b ? parseFloat(b.latency) : NaN, a ? parseFloat(a.latency) : NaN) +
+            `<td>${b ? escapeHtml(b.throughput) : '—'}</td><td>${a ? escapeHtml(a.throughput) : '—'}</td>` +
+            deltaCell(b ? parseFloat(b.throughput) : NaN, a ? parseFloat(a.throughput) : NaN) +
+            '</tr>';
+    }).join('\n');
+}
+
+export function getDiffWebviewContent(before: McaHistoryEntry, after: McaHistoryEntry): string {
+    const diff = diffInstructions(before.results.instructions, after.results.instructions);
+    const added = diff.filter(l => l.op === '+').length;
+    const removed = diff.filter(l => l.op === '-').length;
+
+    const summaryRows = [
+        metricRow('Total Cycles', before.results.latency, after.results.latency),
+        metricRow('Block RThroughput', before.results.throughput, after.results.throughput),
+        metricRow('Instructions', String(before.results.instructions.length), String(after.results.instructions.length)),
+        metricRow('Total uOps', String(totalUops(before.results)), String(totalUops(after.results))),
+    ].join('\n');
+
+    const regions = regionRows(before.results, after.results);
+
+    const diffRows = diff.map(line => {
+        const cls = line.op === '+' ? 'added' : line.op === '-' ? 'removed' : '';
+        const instr = line.after ?? line.before!;
+        return `<tr class="${cls}"><td class="op">${line.op}</td><td class="instruction">${escapeHtml(line.instruction)}</td>` +
+            `<td>${escapeHtml(instr.uops)}</td><td>${escapeHtml(instr.latency)}</td><td>${escapeHtml(instr.throughput)}</td></tr>`;
+    }).join('\n');
+
+    return `<!DOCTYPE html>
+    <html lang="en">
+    <head>
+        <meta charset="UTF-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>LLVM-MCA Run Diff</title>
+        <style>
+            body {
+                font-family: var(--vscode-font-family);
+                color: var(--vscode-foreground);
+                background-color: var(--vscode-editor-background);
+                padding: 20px;
+                line-height: 1.6;
+            }
+            h1 {
+                color: #FFA500;
+                border-bottom: 2px solid var(--vscode-panel-border);
+                padding-bottom: 10px;
+            }
+            h2 {
+                color: #FFA500;
+                margin-top: 30px;
+                margin-bottom: 15px;
+            }
+            table {
+                width: 100%;
+                border-collapse: collapse;
+                margin: 20px 0;
+                background: var(--vscode-editor-background);
+            }
+            th {
+                background: var(--vscode-editor-inactiveSelectionBackground);
+                padding: 10px 12px;
+                text-align: left;
+                font-weight: 600;
+                border-bottom: 2px solid var(--vscode-panel-border);
+            }
+            td {
+                padding: 6px 12px;
+                border-bottom: 1px solid var(--vscode-panel-border);
+            }
+            .instruction, td.op {
+                font-family: var(--vscode-editor-font-family);
+                font-size: 0.95em;
+            }
+            td.better {
+                color: #32CD32;
+                font-weight: bold;
+            }
+            td.worse {
+                color: #FF4500;
+                font-weight: bold;
+            }
+            td.missing {
+                opacity: 0.4;
+            }
+            tr.added {
+                background: rgba(50, 205, 50, 0.15);
+            }
+            tr.removed {
+                background: rgba(255, 69, 0, 0.15);
+            }
+            .run {
+                padding: 10px 15px;
+                margin: 10px 0;
+                background: var(--vscode-editor-inactiveSelectionBackground);
+                border-left: 3px solid #FFA500;
+                border-radius: 5px;
+            }
+            details {
+                margin-top: 20px;
+                border: 1px solid var(--vscode-panel-border);
+                border-radius: 5px;
+                padding: 10px;
+            }
+            summary {
+                cursor: pointer;
+                font-weight: 600;
+            }
+            pre {
+                background: var(--vscode-textCodeBlock-background);
+                padding: 15px;
+                border-radius: 5px;
+                overflow-x: auto;
+            }
+            code {
+                font-family: var(--vscode-editor-font-family);
+                font-size: 0.9em;
+            }
+        </style>
+    </head>
+    <body>
+        <h1> LLVM-MCA Run Diff</h1>
+        <div class="run"><strong>Before:</strong> ${escapeHtml(describeRun(before))} · ${escapeHtml(before.results.compiler)}<br><code>${escapeHtml(before.results.compileCommand)}</code></div>
+        <div class="run"><strong>After:</strong> ${escapeHtml(describeRun(after))} · ${escapeHtml(after.results.compiler)}<br><code>${escapeHtml(after.results.compileCommand)}</code></div>
+
+        <h2> Summary</h2>
+        <table>
+            <thead><tr><th>Metric</th><th>Before</th><th>After</th><th>Delta</th></tr></thead>
+            <tbody>
+                ${summaryRows}
+            </tbody>
+        </table>
+        ${regions ? `
+        <h2> Regions</h2>
+        <table>
+            <thead><tr><th>Region</th><th>Cycles before</th><th>Cycles after</th><th>Delta</th><th>RThroughput before</th><th>RThroughput after</th><th>Delta</th></tr></thead>
+            <tbody>
+                ${regions}
+            </tbody>
+        </table>` : ''}
+
+        <h2> Instructions (${added} added, ${removed} removed)</h2>
+        <table>
+            <thead><tr><th></th><th>Instruction</th><th>uOps</th><th>Latency</th><th>Throughput</th></tr></thead>
+            <tbody>
+                ${diffRows}
+            </tbody>
+        </table>
+
+        <details>
+            <summary> Source Before</summary>
+            <pre><code>${escapeHtml(before.code)}</code></pre>
+        </details>
+        <details>
+            <summary> Source After</summary>
+            <pre><code>${escapeHtml(after.code)}</code></pre>
+        </details>
+    </body>
+    </html>`;
+}
@@ -0,0 +1,191 @@
+/*
+ * Copyright (c) 2025, VectorCamp PC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { McaHistoryEntry, formatRunTime } from './history';
+import { formatSpillCounts } from './spills';
+
+export type ExportFormat = 'json' | 'csv' | 'markdown';
+
+const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; filter: string }> = {
+    json: { label: 'JSON', extension: 'json', filter: 'JSON' },
+    csv: { label: 'CSV', extension: 'csv', filter: 'CSV' },
+    markdown: { label: 'Markdown', extension: 'md', filter: 'Markdown' },
+};
+
+// Document line (1-based) an instruction came from, if known
+function documentLine(entry: McaHistoryEntry, sourceLine?: number): number | undefined {
+    return sourceLine === undefined ? undefined : entry.baseLine + sourceLine + 1;
+}
+
+function toJson(entry: McaHistoryEntry): string {
+    const { results } = entry;
+    return JSON.stringify({
+        timestamp: new Date(entry.timestamp).toISOString(),
+        document: entry.documentUri,
+        description: entry.description,
+        cpu: entry.cpuLabel,
+        cpuTarget: results.cpuTarget,
+        compiler: results.compiler,
+        compileCommand: results.compileCommand,
+        inheritedFlags: results.inheritedFlags,
+        mcaCommand: results.mcaCommand,
+        totalCycles: results.latency,
+        blockRThroughput: results.throughput,
+        warnings: results.warnings,
+        spills: results.spills,
+        regions: results.regions.map(region => ({
+            ...region,
+            sourceLine: documentLine(entry, region.sourceLine),
+            instructions: region.instructions.map(i => ({ ...i, sourceLine: documentLine(entry, i.sourceLine) }))
+        })),
+        source: entry.code,
+        assembly: results.assembly,
+        report: results.fullReport
+    }, null, 2);
+}
+
+function csvField(value: string | number | undefined): string {
+    const text = value === undefined ? '' : String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// One row per instruction, so the file loads straight into a spreadsheet. The
+// run's target, commands and summary metrics repeat on every row, which keeps
+// them with the data when rows from several exports are combined.
+function toCsv(entry: McaHistoryEntry): string {
+    const { results } = entry;
+    const rows = [[
+        'region', 'order', 'line', 'uops', 'latency', 'throughput', 'instruction',
+        'region_cycles', 'region_rthroughput',
+        'cpu_target', 'compiler', 'compile_command', 'mca_command', 'total_cycles', 'block_rthroughput'
+    ]];
+    const run = [results.cpuTarget, results.compiler, results.compileCommand, results.mcaCommand, results.latency, results.throughput];
+    for (const region of results.regions) {
+        for (const instr of region.instructions) {
+            rows.push([
+                region.name,
+                String(instr.order),
+                String(documentLine(entry, instr.sourceLine) ?? ''),
+                instr.uops,
+                instr.latency,
+                instr.throughput,
+                instr.instruction,
+                region.latency,
+                region.throughput,
+                ...run
+            ]);
+        }
+    }
+    return rows.map(row => row.map(csvField).join(',')).join('\n') + '\n';
+}
+
+function markdownCell(text: string): string {
+    return text.replace(/\|/g, '\\|');
+}
+
+function toMarkdown(entry: McaHistoryEntry): string {
+    const { results } = entry;
+    const lines = [
+        `# LLVM-MCA Analysis: ${entry.description}`,
+        '',
+        `- **CPU Target:** ${results.cpuTarget}`,
+        `- **Compiler:** ${results.compiler}`,
+        `- **Date:** ${formatRunTime(entry)}`,
+        `- **Compile:** \`${results.compileCommand}\``,
+        ...(results.inheritedFlags ? [`- **Inherited flags:** \`${results.inheritedFlags.flags.join(' ')}\` (from ${results.inheritedFlags.database})`] : []),
+        `- **Analyze:** \`${results.mcaCommand}\``,
+        '',
+        '| Metric | Value |',
+        '| --- | --- |',
+        `| Total Cycles | ${results.latency} |`,
+        `| Block RThroughput | ${results.throughput} |`,
+        `| Instructions | ${results.instructions.length} |`,
+    ];
+
+    for (const warning of results.warnings) {
+        lines.push('', `> **Warning:** ${warning}`);
+    }
+    if (results.spills?.accesses.length) {
+        lines.push('', `> **Register spills:** ${results.spills.spills} spill(s), ${results.spills.reloads} reload(s) (${formatSpillCounts(results.spills)})`);
+    }
+
+    for (const region of results.regions) {
+        lines.push('');
+        if (region.name) {
+            const line = documentLine(entry, region.sourceLine);
+            lines.push(`## Region ${region.name}${line !== undefined ? ` (line ${line})` : ''}`, '');
+            lines.push(`Total Cycles: ${region.latency} · Block RThroughput: ${region.throughput}`, '');
+        }
+        if (region.bottlenecks) {
+            lines.push(`> ${region.bottlenecks.summary}`, '');
+        }
+        lines.push('| # | Line | uOps | Latency | Throughput | Instruction |', '| --- | --- | --- | --- | --- | --- |');
+        for (const instr of region.instructions) {
+            const line = documentLine(entry, instr.sourceLine);
+            lines.push(`| ${instr.order} | ${line ?? '-'} | ${instr.uops} | ${instr.latency} | ${instr.throughput} | \`${markdownCell(instr.instruction)}\` |`);
+        }
+    }
+
+    lines.push('', '## Source', '', '```c', entry.code, '```', '');
+    return lines.join('\n');
+}
+
+export function formatMcaRun(entry: McaHistoryEntry, format: ExportFormat): string {
+    switch (format) {
+        case 'json':
+            return toJson(entry);
+        case 'csv':
+            return toCsv(entry);
+        case 'markdown':
+            return toMarkdown(entry);
+    }
+}
+
+// Ask for a format (unless given) and a file name, then write the run to disk
+export async function exportMcaRun(entry: McaHistoryEntry, format?: ExportFormat): Promise<void> {
+    if (!format) {
+        const picked = await vscode.window.showQuickPick(
+            (Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(f => ({ label: EXPORT_FORMATS[f].label, format: f })),
+            { placeHolder: 'Export format', title: 'Export LLVM-MCA Results' }
+        );
+        if (!picked) {
+            return; // User cancelled
+        }
+        format = picked.format;
+    }
+
+    const { extension, filter } = EXPORT_FORMATS[format];
+    const documentUri = vscode.Uri.parse(entry.documentUri);
+    const baseName = `${path.parse(documentUri.path).name}-mca-${entry.cpuLabel}.${extension}`.replace(/[^\w.-]/g, '_');
+    const folder = vscode.workspace.getWorkspaceFolder(documentUri)?.uri ?? vscode.workspace.workspaceFolders?.[0]?.uri;
+
+    const target = await vscode.window.showSaveDialog({
+        defaultUri: folder ? vscode.Uri.joinPath(folder, baseName) : undefined,
+        filters: { [filter]: [extension] },
+        title: 'Export LLVM-MCA Results'
+    });
+    if (!target) {
+        return; // User cancelled
+    }
+
+    await vscode.workspace.fs.writeFile(target, Buffer.from(formatMcaRun(entry, format), 'utf-8'));
+
+    const action = await vscode.window.showInformationMessage(`LLVM-MCA results exported to ${path.basename(target.fsPath)}`, 'Open');
+    if (action === 'Open') {
+        await vscode.window.showTextDocument(target);
+    }
+}
@@ -0,0 +1,132 @@
+/*
+ * Copyright (c) 2025, VectorCamp PC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import * as vscode from 'vscode';
+import { McaResults } from './types';
+import { ToolchainSettings } from './toolchain';
+
+const HISTORY_KEY = 'mcaRunHistory';
+const MAX_ENTRIES = 50;
+
+export const HISTORY_VIEW_ID = 'code_simd_ai_mcaHistory';
+
+export interface McaHistoryEntry {
+    id: string;
+    timestamp: number;
+    documentUri: string;
+    baseLine: number;       // Document line the snippet's sourceLine values are relative to
+    description: string;    // e.g. "function add_vectors"
+    cpuKey: string;
+    cpuLabel: string;
+    code: string;           // The analyzed snippet as it was at the time of the run
+    toolchain: ToolchainSettings;
+    results: McaResults;
+}
+
+export function formatRunTime(entry: McaHistoryEntry): string {
+    return new Date(entry.timestamp).toLocaleString();
+}
+
+export function describeRun(entry: McaHistoryEntry): string {
+    return `${entry.cpuLabel} · ${entry.description} · ${formatRunTime(entry)}`;
+}
+
+// Newest first, stored in workspace state so runs survive closing the report panels
+export class McaHistory implements vscode.TreeDataProvider<McaHistoryEntry> {
+    private readonly changeEmitter = new vscode.EventEmitter<McaHistoryEntry | undefined>();
+    readonly onDidChangeTreeData = this.changeEmitter.event;
+
+    constructor(private readonly context: vscode.ExtensionContext) {}
+
+    getEntries(): McaHistoryEntry[] {
+        return this.context.workspaceState.get<McaHistoryEntry[]>(HISTORY_KEY) || [];
+    }
+
+    getEntry(id: string): McaHistoryEntry | undefined {
+        return this.getEntries().find(e => e.id === id);
+    }
+
+    async record(entry: Omit<McaHistoryEntry, 'id' | 'timestamp'>): Promise<McaHistoryEntry> {
+        const timestamp = Date.now();
+        const saved: McaHistoryEntry = { ...entry, id: `${timestamp}-${Math.random().toString(36).slice(2, 8)}`, timestamp };
+        const entries = [saved, ...this.getEntries()].slice(0, MAX_ENTRIES);
+        await this.update(entries);
+        return saved;
+    }
+
+    async delete(ids: string[]) {
+        await this.update(this.getEntries().filter(e => !ids.includes(e.id)));
+    }
+
+    async clear() {
+        await this.update([]);
+    }
+
+    private async update(entries: McaHistoryEntry[]) {
+        await this.context.workspaceState.update(HISTORY_KEY, entries);
+        this.changeEmitter.fire(undefined);
+    }
+
+    getTreeItem(entry: McaHistoryEntry): vscode.TreeItem {
+        const item = new vscode.TreeItem(`${entry.cpuLabel} · ${entry.description}`);
+        item.id = entry.id;
+        item.description = `${entry.results.latency} cycles · RThroughput ${entry.results.throughput}`;
+        item.contextValue = 'mcaRun';
+        item.iconPath = new vscode.ThemeIcon('pulse');
+
+        const tooltip = new vscode.MarkdownString();
+        tooltip.appendMarkdown(`**${entry.results.cpuTarget}** — ${formatRunTime(entry)}\n\n`);
+        tooltip.appendMarkdown(`${vscode.workspace.asRelativePath(vscode.Uri.parse(entry.documentUri))}, line ${entry.baseLine + 1} · ${entry.results.compiler}\n\n`);
+        tooltip.appendCodeblock(entry.results.compileCommand, 'shell');
+        item.tooltip = tooltip;
+
+        item.command = {
+            command: 'code.simd.ai.openMcaRun',
+            title: 'Open LLVM-MCA Report',
+            arguments: [entry]
+        };
+        return item;
+    }
+
+    getChildren(element?: McaHistoryEntry): McaHistoryEntry[] {
+        return element ? [] : this.getEntries();
+    }
+
+    register(context: vscode.ExtensionContext) {
+        const view = vscode.window.createTreeView(HISTORY_VIEW_ID, {
+            treeDataProvider: this,
+            canSelectMany: true
+        });
+
+        context.subscriptions.push(
+            view,
+            this.changeEmitter,
+            vscode.commands.registerCommand('code.simd.ai.deleteMcaRun', async (entry?: McaHistoryEntry, selected?: McaHistoryEntry[]) => {
+                const targets = selected?.length ? selected : entry ? [entry] : [...view.selection];
+                if (targets.length) {
+                    await this.delete(targets.map(e => e.id));
+                }
+            }),
+            vscode.commands.registerCommand('code.simd.ai.clearMcaHistory', async () => {
+                const answer = await vscode.window.showWarningMessage(
+                    'Delete all saved LLVM-MCA runs for this workspace?', { modal: true }, 'Delete'
+                );
+                if (answer === 'Delete') {
+                    await this.clear();
+                }
+            })
+        );
+    }
+}
@@ -0,0 +1,66 @@
+/*
+ * Copyright (c) 2025, VectorCamp PC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import * as vscode from 'vscode';
+import { getIntrinsics, getIntrinsicsForMnemonic, simdFullData } from '../intrinsicsCache';
+import { fetchTooltip } from '../api/tooltipFetcher';
+import { McaInstruction } from './types';
+import { getApiBase } from '../config';
+
+// "vpshufb %ymm1, %ymm0, %ymm0" -> "vpshufb"
+export function getMnemonic(instruction: string): string {
+    return instruction.trim().split(/\s+/)[0].toLowerCase();
+}
+
+// Mnemonic -> intrinsics that compile to it, for the mnemonics in the report.
+// Only the intrinsics the snippet uses are fetched, which is what fills the
+// mnemonic index, so other mnemonics map to whatever earlier hovers taught it.
+export async function getMnemonicIntrinsics(code: string, instructions: McaInstruction[]): Promise<Record<string, string[]>> {
+    const known = new Set(await getIntrinsics());
+    const used = new Set((code.match(/\b\w+\b/g) ?? []).filter(word => known.has(word)));
+    await Promise.all([...used].map(name => fetchTooltip(name)));
+
+    const docs: Record<string, string[]> = {};
+    for (const instr of instructions) {
+        const mnemonic = getMnemonic(instr.instruction);
+        if (mnemonic in docs) {continue;}
+        const intrinsics = getIntrinsicsForMnemonic(mnemonic);
+        if (intrinsics.length) {
+            // Intrinsics from the snippet first, they are the likely origin
+            docs[mnemonic] = [...intrinsics.filter(i => used.has(i)), ...intrinsics.filter(i => !used.has(i))];
+        }
+    }
+    return docs;
+}
+
+// The performance graph when simd.info has measurements for the intrinsic,
+// its page on the configured simd.info site otherwise
+export async function showIntrinsicDocs(mnemonic: string, intrinsics: string[]) {
+    let name = intrinsics[0];
+    if (intrinsics.length > 1) {
+        name = (await vscode.window.showQuickPick(intrinsics, {
+            placeHolder: `Intrinsics that compile to ${mnemonic}`
+        })) ?? '';
+    }
+    if (!name) {return;}
+
+    if (simdFullData[name]) {
+        await vscode.commands.executeCommand('code.simd.ai.showPerformanceGraph', name);
+    } else {
+        // A mirror set in apiBaseUrl serves the pages too
+        const page = `${getApiBase().replace(/\/+$/, '')}/c_intrinsic/${encodeURIComponent(name)}`;
+        await vscode.env.openExternal(vscode.Uri.parse(page));
+    }
+}
@@ -0,0 +1,128 @@
+/*
+ * Copyright (c) 2025, VectorCamp PC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import * as vscode from 'vscode';
+import { spawn, ChildProcess } from 'child_process';
+
+export class McaCancelledError extends Error {
+    constructor() {
+        super('Analysis cancelled');
+        this.name = 'McaCancelledError';
+    }
+}
+
+export class McaTimeoutError extends Error {
+    constructor(command: string, timeoutMs: number) {
+        super(`${command} did not finish within ${timeoutMs / 1000} seconds`);
+        this.name = 'McaTimeoutError';
+    }
+}
+
+// Same shape as the error child_process.exec rejects with, so callers can read stderr
+export class ProcessError extends Error {
+    constructor(message: string, public readonly code: number | null, public readonly stdout: string, public readonly stderr: string) {
+        super(message);
+        this.name = 'ProcessError';
+    }
+}
+
+export interface ProcessOptions {
+    token?: vscode.CancellationToken;
+    timeoutMs?: number;   // 0 or undefined for no limit
+}
+
+export interface ProcessOutput {
+    stdout: string;
+    stderr: string;
+}
+
+// Copy-pasteable shell form of an argument vector, for logs and reports
+export function formatCommand(command: string, args: string[]): string {
+    const quote = (arg: string) => /^[\w@%+=:,./-]+$/.test(arg) ? arg : `'${arg.replace(/'/g, `'\\''`)}'`;
+    return [command, ...args].map(quote).join(' ');
+}
+
+// Kill the child and everything it spawned (gcc runs cc1 and as as children)
+function killTree(child: ChildProcess) {
+    if (child.pid === undefined) {return;}
+    try {
+        if (process.platform === 'win32') {
+            // spawn reports a missing taskkill as an event, not by throwing
+            spawn('taskkill', ['/pid', String(child.pid), '/T', '/F'])
+                .on('error', () => child.kill())
+                .on('exit', code => {
+                    if (code !== 0) {child.kill();}
+                });
+        } else {
+            process.kill(-child.pid, 'SIGKILL');
+        }
+    } catch {
+        child.kill('SIGKILL');
+    }
+}
+
+// Run a program without a shell. Rejects with ProcessError on a non-zero exit,
+// and kills the process tree on cancellation or timeout before rejecting.
+export function runProcess(command: string, args: string[], options: ProcessOptions = {}): Promise<ProcessOutput> {
+    return new Promise((resolve, reject) => {
+        if (options.token?.isCancellationRequested) {
+            reject(new McaCancelledError());
+            return;
+        }
+
+        // A process group of its own lets killTree reach grandchildren
+        const child = spawn(command, args, { detached: process.platform !== 'win32', windowsHide: true });
+        const stdout: Buffer[] = [];
+        const stderr: Buffer[] = [];
+        let abortReason: Error | undefined;
+
+        const abort = (reason: Error) => {
+            if (abortReason) {return;}
+            abortReason = reason;
+            killTree(child);
+        };
+
+        const timer = options.timeoutMs
+            ? setTimeout(() => abort(new McaTimeoutError(command, options.timeoutMs!)), options.timeoutMs)
+            : undefined;
+        const cancellation = options.token?.onCancellationRequested(() => abort(new McaCancelledError()));
+
+        child.stdout?.on('data', chunk => stdout.push(chunk));
+        child.stderr?.on('data', chunk => stderr.push(chunk));
+
+        const cleanup = () => {
+            if (timer) {clearTimeout(timer);}
+            cancellation?.dispose();
+        };
+
+        child.on('error', error => {
+            cleanup();
+            reject(abortReason ?? error);
+        });
+
+        // 'close' fires once the streams are drained, so nothing writes after we return
+        child.on('close', code => {
+            cleanup();
+            const output = { stdout: Buffer.concat(stdout).toString(), stderr: Buffer.concat(stderr).toString() };
+            if (abortReason) {
+                reject(abortReason);
+            } else if (code !== 0) {
+                reject(new ProcessError(`Command failed: ${formatCommand(command, args)}\n${output.stderr}`, code, output.stdout, output.stderr));
+            } else {
+                resolve(output);
+            }
+        });
+    });
+}
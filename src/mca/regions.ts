@@ -0,0 +1,269 @@
+/*
+ * Copyright (c) 2025, VectorCamp PC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import * as vscode from 'vscode';
+
+export type RegionMode = 'auto' | 'markers' | 'none';
+
+export interface RegionMarker {
+    name: string;
+    sourceLine: number;  // 0-based line within the snippet
+}
+
+// Text added in the middle of a line of the snippet; `character` is the
+// column in the original line it was inserted at
+export interface Insertion {
+    line: number;
+    character: number;
+    length: number;
+}
+
+export interface InstrumentedCode {
+    code: string;
+    regions: RegionMarker[];
+    insertions?: Insertion[];
+}
+
+// `// LLVM-MCA-BEGIN name` / `// LLVM-MCA-END` on a line of their own
+const BEGIN_COMMENT = /^(\s*)(?:\/\/|\/\*)\s*LLVM-MCA-BEGIN\b\s*([\w.@-]*)\s*(?:\*\/)?\s*$/;
+const END_COMMENT = /^(\s*)(?:\/\/|\/\*)\s*LLVM-MCA-END\b\s*([\w.@-]*)\s*(?:\*\/)?\s*$/;
+
+// Assembly comment character llvm-mca looks for, per registered LLVM target
+export function getAsmCommentPrefix(llvmTarget: string): string {
+    switch (llvmTarget) {
+        case 'aarch64':
+            return '//';
+        case 'arm':
+            return '@';
+        default:
+            return '#';
+    }
+}
+
+function markerStatement(prefix: string, directive: string): string {
+    return `__asm__ volatile("${prefix} ${directive}" ::: "memory");`;
+}
+
+export function hasRegionMarkers(code: string): boolean {
+    return code.split('\n').some(line => BEGIN_COMMENT.test(line));
+}
+
+// Replace marker comments with inline asm on the same line so line numbers are kept
+function instrumentMarkers(code: string, prefix: string): InstrumentedCode {
+    const regions: RegionMarker[] = [];
+    const lines = code.split('\n').map((line, i) => {
+        const begin = line.match(BEGIN_COMMENT);
+        if (begin) {
+            const name = begin[2] || `region_L${i + 1}`;
+            regions.push({ name, sourceLine: i });
+            return begin[1] + markerStatement(prefix, `LLVM-MCA-BEGIN ${name}`);
+        }
+        const end = line.match(END_COMMENT);
+        if (end) {
+            return end[1] + markerStatement(prefix, 'LLVM-MCA-END');
+        }
+        return line;
+    });
+    return { code: lines.join('\n'), regions };
+}
+
+// Blank out comments and string/char literals, keeping offsets intact
+function maskCode(code: string): string {
+    return code.replace(/\/\*[\s\S]*?\*\/|\/\/[^\n]*|"(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*'/g,
+        m => m.replace(/[^\n]/g, ' '));
+}
+
+function matchingClose(masked: string, openIndex: number, open: string, close: string): number {
+    let depth = 0;
+    for (let i = openIndex; i < masked.length; i++) {
+        if (masked[i] === open) {depth++;}
+        else if (masked[i] === close && --depth === 0) {return i;}
+    }
+    return -1;
+}
+
+interface LoopSpan {
+    start: number;  // Offset of the loop keyword
+    end: number;    // Offset just past the closing brace of the body
+}
+
+// Loops with a braced body that contain no other loop
+export function findInnermostLoops(code: string): LoopSpan[] {
+    const masked = maskCode(code);
+    const loops: LoopSpan[] = [];
+    const keyword = /\b(for|while|do)\b/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = keyword.exec(masked)) !== null) {
+        let pos = match.index + match[0].length;
+        if (match[1] !== 'do') {
+            const paren = masked.slice(pos).search(/\S/);
+            if (paren === -1 || masked[pos + paren] !== '(') {continue;}
+            const closeParen = matchingClose(masked, pos + paren, '(', ')');
+            if (closeParen === -1) {continue;}
+            pos = closeParen + 1;
+        }
+
+        const brace = masked.slice(pos).search(/\S/);
+        // Skips brace-less bodies and the `while (...);` tail of a do-while
+        if (brace === -1 || masked[pos + brace] !== '{') {continue;}
+        const closeBrace = matchingClose(masked, pos + brace, '{', '}');
+        if (closeBrace === -1) {continue;}
+
+        let end = closeBrace + 1;
+        if (match[1] === 'do') {
+            const tail = masked.slice(end).match(/^\s*while\s*\(/);
+            if (tail) {
+                const closeParen = matchingClose(masked, end + tail[0].length - 1, '(', ')');
+                const semi = closeParen === -1 ? -1 : masked.indexOf(';', closeParen);
+                if (semi !== -1) {end = semi + 1;}
+            }
+        }
+        loops.push({ start: match.index, end });
+    }
+
+    return loops.filter(outer => !loops.some(inner =>
+        inner !== outer && inner.start > outer.start && inner.end <= outer.end
+    ));
+}
+
+// Wrap every innermost loop in BEGIN/END markers without adding lines. The
+// markers and the loop go in braces, so they stay one statement when the
+// loop is the body of an unbraced `for` or `if`.
+function instrumentLoops(code: string, prefix: string): InstrumentedCode {
+    const loops = findInnermostLoops(code);
+    const regions: RegionMarker[] = [];
+    const insertions: Insertion[] = [];
+    const names = new Set<string>();
+    let result = code;
+
+    const insert = (offset: number, text: string) => {
+        const before = code.slice(0, offset).split('\n');
+        insertions.push({ line: before.length - 1, character: before[before.length - 1].length, length: text.length });
+        result = result.slice(0, offset) + text + result.slice(offset);
+    };
+
+    for (const loop of loops) {
+        const sourceLine = code.slice(0, loop.start).split('\n').length - 1;
+        const base = `loop_L${sourceLine + 1}`;
+        let name = base;
+        // Several loops on one line
+        for (let n = 2; names.has(name); n++) {
+            name = `${base}_${n}`;
+        }
+        names.add(name);
+        regions.push({ name, sourceLine });
+    }
+
+    // Back to front, so the offsets of the loops still to do are unchanged
+    for (let i = loops.length - 1; i >= 0; i--) {
+        const loop = loops[i];
+        insert(loop.end, ' ' + markerStatement(prefix, 'LLVM-MCA-END') + ' }');
+        insert(loop.start, '{ ' + markerStatement(prefix, `LLVM-MCA-BEGIN ${regions[i].name}`) + ' ');
+    }
+
+    return { code: result, regions, insertions };
+}
+
+/**
+ * The position in the original snippet of a compiler diagnostic or fix-it
+ * about the instrumented code. Columns after inserted markers move back by
+ * their length; a column inside a marker moves to where it was inserted.
+ */
+export function toOriginalPosition<T extends { line: number; character: number }>(instrumented: InstrumentedCode, position: T): T {
+    const onLine = (instrumented.insertions ?? [])
+        .filter(insertion => insertion.line === position.line)
+        .sort((a, b) => a.character - b.character);
+
+    let shift = 0;
+    for (const insertion of onLine) {
+        const start = insertion.character + shift;
+        if (position.character < start) {break;}
+        if (position.character < start + insertion.length) {
+            return { ...position, character: insertion.character };
+        }
+        shift += insertion.length;
+    }
+    return { ...position, character: position.character - shift };
+}
+
+// Separates a region name from the copy number uniqueRegionNames adds
+const REGION_COPY_SEPARATOR = '~';
+
+/**
+ * Number the copies of a region the compiler emitted more than once, e.g. a
+ * loop in a function that was also inlined into its caller, so each copy is
+ * its own region: `loop_L4`, `loop_L4~2`, ... `~` cannot appear in a marker
+ * name, so the numbering never clashes with one.
+ */
+export function uniqueRegionNames(asm: string): string {
+    const seen = new Map<string, number>();
+    return asm.replace(/(LLVM-MCA-BEGIN[ \t]+)(\S+)/g, (_match, begin: string, name: string) => {
+        const count = (seen.get(name) ?? 0) + 1;
+        seen.set(name, count);
+        return count > 1 ? `${begin}${name}${REGION_COPY_SEPARATOR}${count}` : begin + name;
+    });
+}
+
+// The marker a region in the report came from
+export function findRegionMarker(markers: RegionMarker[], regionName: string): RegionMarker | undefined {
+    const name = regionName.split(REGION_COPY_SEPARATOR)[0];
+    return markers.find(m => m.name === name);
+}
+
+export function instrumentRegions(code: string, mode: RegionMode, prefix: string): InstrumentedCode {
+    if (mode === 'none') {
+        return { code, regions: [] };
+    }
+    if (hasRegionMarkers(code)) {
+        return instrumentMarkers(code, prefix);
+    }
+    return mode === 'auto' ? instrumentLoops(code, prefix) : { code, regions: [] };
+}
+
+export function registerMarkRegionCommand(context: vscode.ExtensionContext) {
+    const disposable = vscode.commands.registerCommand('code.simd.ai.markMcaRegion', async () => {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor || editor.selection.isEmpty) {
+            vscode.window.showErrorMessage('Select the code to mark as an LLVM-MCA region');
+            return;
+        }
+
+        const name = await vscode.window.showInputBox({
+            prompt: 'Region name (optional)',
+            placeHolder: 'kernel',
+            validateInput: value => /^[\w.@-]*$/.test(value) ? null : 'Use letters, digits, _ . @ or -'
+        });
+        if (name === undefined) {
+            return; // User cancelled
+        }
+
+        const { start, end } = editor.selection;
+        const lastLine = end.character === 0 && end.line > start.line ? end.line - 1 : end.line;
+        const indent = editor.document.lineAt(start.line).text.match(/^\s*/)?.[0] ?? '';
+
+        await editor.edit(editBuilder => {
+            if (lastLine === editor.document.lineCount - 1) {
+                // No line after the selection to insert before
+                editBuilder.insert(editor.document.lineAt(lastLine).range.end, `\n${indent}// LLVM-MCA-END`);
+            } else {
+                editBuilder.insert(new vscode.Position(lastLine + 1, 0), `${indent}// LLVM-MCA-END\n`);
+            }
+            editBuilder.insert(new vscode.Position(start.line, 0), `${indent}// LLVM-MCA-BEGIN${name ? ' ' + name : ''}\n`);
+        });
+    });
+
+    context.subscriptions.push(disposable);
+}
@@ -0,0 +1,134 @@
+/*
+ * Copyright (c) 2025, VectorCamp PC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { CompilerKind } from './compilers';
+import { SnippetPosition, toSnippetPosition } from './diagnostics';
+
+export const REMARKS_SOURCE_SUFFIX = '(vectorization)';
+
+const VECTORIZER_PASSES = 'loop-vectorize|slp-vectorizer';
+
+// 'passed' is something the vectorizer did, 'missed' something it gave up on,
+// and 'analysis' the reason it gave up
+export interface OptimizationRemark {
+    kind: 'passed' | 'missed' | 'analysis';
+    pass: string;               // e.g. "loop-vectorize", or "vect" for GCC
+    position: SnippetPosition;
+    message: string;
+}
+
+// GCC has no per-pass remarks; its vectorizer reports both loops and SLP under "vec"
+export function getRemarkFlags(kind: CompilerKind): string[] {
+    if (kind === 'gcc') {
+        return ['-fopt-info-vec-optimized-missed'];
+    }
+    return [
+        `-Rpass=${VECTORIZER_PASSES}`,
+        `-Rpass-missed=${VECTORIZER_PASSES}`,
+        `-Rpass-analysis=${VECTORIZER_PASSES}`
+    ];
+}
+
+// clang: "input.cpp:12:5: remark: vectorized loop (vectorization width: 8, interleaved count: 4) [-Rpass=loop-vectorize]"
+// GCC:   "input.cpp:12:26: missed: couldn't vectorize loop", whose reasons may
+//        continue on indented lines
+export function parseOptimizationRemarks(stderr: string, sourceFile: string, headerLines: number): OptimizationRemark[] {
+    const remarks: OptimizationRemark[] = [];
+    let last: OptimizationRemark | undefined;
+
+    for (const line of stderr.split('\n')) {
+        const clangMatch = line.match(/^(.*?):(\d+):(\d+):\s+remark:\s+(.*?)\s*\[-Rpass(-missed|-analysis)?=([\w-]+)\]$/);
+        const gccMatch = clangMatch ? null : line.match(/^(.*?):(\d+):(\d+):\s+(optimized|missed):\s+(.*)$/);
+
+        if (clangMatch) {
+            last = {
+                kind: clangMatch[5] === '-missed' ? 'missed' : clangMatch[5] === '-analysis' ? 'analysis' : 'passed',
+                pass: clangMatch[6],
+                position: toSnippetPosition(clangMatch[2], clangMatch[3], headerLines),
+                message: clangMatch[4]
+            };
+        } else if (gccMatch) {
+            // "not vectorized: ..." explains the "couldn't vectorize loop" before it
+            const kind = gccMatch[4] === 'optimized' ? 'passed' : /^not vectorized/.test(gccMatch[5]) ? 'analysis' : 'missed';
+            last = {
+                kind,
+                pass: 'vect',
+                position: toSnippetPosition(gccMatch[2], gccMatch[3], headerLines),
+                message: gccMatch[5]
+            };
+        } else {
+            // clang's source and caret lines are indented too, so only GCC's count
+            if (last?.pass === 'vect' && /^\s+\S/.test(line)) {
+                last.message += ` ${line.trim()}`;
+            } else {
+                last = undefined;
+            }
+            continue;
+        }
+
+        const file = (clangMatch ?? gccMatch)![1];
+        if (path.basename(file) !== sourceFile || last.position.line < 0) {
+            // Remarks about inlined header code or the generated prelude
+            last = undefined;
+            continue;
+        }
+        remarks.push(last);
+    }
+
+    return remarks;
+}
+
+// One diagnostic per remark, replaced on every run for the document
+export class RemarkDiagnostics {
+    private readonly collection = vscode.languages.createDiagnosticCollection('simd-vectorization-remarks');
+
+    publish(document: vscode.TextDocument, baseLine: number, remarks: OptimizationRemark[], compiler: CompilerKind) {
+        const seen = new Set<string>();
+        const items: vscode.Diagnostic[] = [];
+
+        for (const remark of remarks) {
+            // Inlining and unrolling repeat the same remark for one source location
+            const key = `${remark.position.line}:${remark.position.character}|${remark.message}`;
+            if (seen.has(key)) {continue;}
+            seen.add(key);
+
+            const start = document.validatePosition(new vscode.Position(baseLine + remark.position.line, remark.position.character));
+            const end = document.getWordRangeAtPosition(start)?.end ?? document.lineAt(start.line).range.end;
+            const diagnostic = new vscode.Diagnostic(
+                new vscode.Range(start, end),
+                remark.message,
+                remark.kind === 'missed' ? vscode.DiagnosticSeverity.Warning : vscode.DiagnosticSeverity.Information
+            );
+            diagnostic.source = `${compiler} ${REMARKS_SOURCE_SUFFIX}`;
+            diagnostic.code = remark.pass;
+            items.push(diagnostic);
+        }
+
+        this.collection.set(document.uri, items);
+    }
+
+    clear(uri: vscode.Uri) {
+        this.collection.delete(uri);
+    }
+
+    register(context: vscode.ExtensionContext) {
+        context.subscriptions.push(
+            this.collection,
+            vscode.workspace.onDidCloseTextDocument(document => this.clear(document.uri))
+        );
+    }
+}
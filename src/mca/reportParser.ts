@@ -0,0 +1,233 @@
+/*
+ * Copyright (c) 2025, VectorCamp PC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { McaBottlenecks, McaInstruction, McaRegion, McaResourcePressure, McaTimeline } from './types';
+import { RegionMarker, findRegionMarker } from './regions';
+
+// Text between a section title and the next blank-line-separated title
+function getSection(report: string, title: string): string | null {
+    const start = report.indexOf(title);
+    if (start === -1) {return null;}
+    const body = report.slice(start + title.length);
+    const end = body.search(/\n\n\n|\n\n(?=[A-Z][\w ]+:\s*\n)/);
+    return end === -1 ? body : body.slice(0, end);
+}
+
+function parsePressureValues(line: string, count: number): { values: number[]; rest: string } {
+    const values: number[] = [];
+    let rest = line;
+    for (let i = 0; i < count; i++) {
+        const match = rest.match(/^\s*(-|[\d.]+)/);
+        if (!match) {break;}
+        values.push(match[1] === '-' ? 0 : parseFloat(match[1]));
+        rest = rest.slice(match[0].length);
+    }
+    return { values, rest: rest.trim() };
+}
+
+export function parseResourcePressure(report: string): McaResourcePressure | null {
+    const resourcesSection = getSection(report, 'Resources:\n');
+    if (!resourcesSection) {return null;}
+
+    const resources: string[] = [];
+    for (const line of resourcesSection.split('\n')) {
+        const match = line.match(/^\[[\d.]+\]\s+-\s+(.+)$/);
+        if (match) {
+            resources.push(match[1].trim());
+        }
+    }
+    if (!resources.length) {return null;}
+
+    const pressure: McaResourcePressure = { resources, perIteration: [], byInstruction: [] };
+
+    const perIteration = getSection(report, 'Resource pressure per iteration:\n');
+    if (perIteration) {
+        const valuesLine = perIteration.split('\n').find(l => l.trim() && !l.trim().startsWith('['));
+        if (valuesLine) {
+            pressure.perIteration = parsePressureValues(valuesLine, resources.length).values;
+        }
+    }
+
+    const byInstruction = getSection(report, 'Resource pressure by instruction:\n');
+    if (byInstruction) {
+        for (const line of byInstruction.split('\n')) {
+            if (!line.trim() || line.trim().startsWith('[')) {continue;}
+            const { values, rest } = parsePressureValues(line, resources.length);
+            if (values.length === resources.length && rest) {
+                pressure.byInstruction.push({ instruction: rest, pressure: values });
+            }
+        }
+    }
+
+    return pressure;
+}
+
+// The stage column is fixed width: it starts where the "Index" header's cycle
+// ruler starts and is as wide as that ruler.
+export function parseTimeline(report: string): McaTimeline | null {
+    const section = getSection(report, 'Timeline view:\n');
+    if (!section) {return null;}
+
+    const lines = section.split('\n');
+    const indexLine = lines.find(l => l.startsWith('Index'));
+    const indexMatch = indexLine?.match(/^Index(\s+)/);
+    if (!indexLine || !indexMatch) {return null;}
+
+    const start = 'Index'.length + indexMatch[1].length;
+    const cycles = indexLine.length - start;
+    const timeline: McaTimeline = { cycles, entries: [] };
+
+    for (const line of lines) {
+        const match = line.match(/^\[(\d+),(\d+)\]/);
+        if (!match) {continue;}
+        timeline.entries.push({
+            iteration: parseInt(match[1], 10),
+            index: parseInt(match[2], 10),
+            stages: line.slice(start, start + cycles),
+            instruction: line.slice(start + cycles).trim()
+        });
+    }
+
+    return timeline;
+}
+
+function percentAfter(text: string, label: string): number | undefined {
+    const escaped = label.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const match = text.match(new RegExp(`${escaped}:?\\s*\\[\\s*([\\d.]+)%\\s*\\]`));
+    return match ? parseFloat(match[1]) : undefined;
+}
+
+export function parseBottlenecks(report: string): McaBottlenecks | null {
+    if (report.includes('No resource or data dependency bottlenecks discovered')) {
+        return { found: false, resources: [], criticalSequence: [], summary: 'No resource or data dependency bottlenecks discovered.' };
+    }
+
+    const start = report.indexOf('Cycles with backend pressure increase');
+    if (start === -1) {return null;}
+    const end = report.indexOf('Instruction Info:', start);
+    const text = report.slice(start, end === -1 ? undefined : end);
+
+    const bottlenecks: McaBottlenecks = {
+        found: true,
+        backendPressure: percentAfter(text, 'Cycles with backend pressure increase'),
+        resourcePressure: percentAfter(text, 'Resource Pressure'),
+        dataDependencies: percentAfter(text, 'Data Dependencies'),
+        registerDependencies: percentAfter(text, 'Register Dependencies'),
+        memoryDependencies: percentAfter(text, 'Memory Dependencies'),
+        resources: [],
+        criticalSequence: [],
+        summary: ''
+    };
+
+    const seqStart = text.indexOf('Critical sequence based on the simulation:');
+    const throughputPart = seqStart === -1 ? text : text.slice(0, seqStart);
+    for (const line of throughputPart.split('\n')) {
+        const match = line.match(/^\s+-\s+(.+?)\s+\[\s*([\d.]+)%\s*\]/);
+        if (match && !/Dependencies$/.test(match[1])) {
+            bottlenecks.resources.push({ name: match[1], percent: parseFloat(match[2]) });
+        }
+    }
+
+    if (seqStart !== -1) {
+        bottlenecks.criticalSequence = text.slice(seqStart).split('\n').slice(1)
+            .filter(l => l.trim())
+            .map(l => l.replace(/\s+$/, ''));
+    }
+
+    bottlenecks.summary = summarizeBottlenecks(bottlenecks);
+    return bottlenecks;
+}
+
+// One sentence naming the saturated port(s) or the dependency chain
+function summarizeBottlenecks(b: McaBottlenecks): string {
+    const resourcePct = b.resourcePressure ?? 0;
+    const dataPct = b.dataDependencies ?? 0;
+
+    if (resourcePct >= dataPct && b.resources.length) {
+        const top = Math.max(...b.resources.map(r => r.percent));
+        const saturated = b.resources.filter(r => r.percent === top).map(r => r.name);
+        return `Resource pressure on ${saturated.join(', ')} increases backend pressure in ${top.toFixed(2)}% of cycles.`;
+    }
+
+    const depLine = b.criticalSequence.find(l => /## (REGISTER|MEMORY) dependency/.test(l));
+    const depMatch = depLine?.match(/##\s+(REGISTER|MEMORY) dependency:\s*(.*)$/);
+    const kind = (b.registerDependencies ?? 0) >= (b.memoryDependencies ?? 0) ? 'register' : 'memory';
+    const via = depMatch ? ` through ${depMatch[2].trim()}` : '';
+    return `A ${kind} dependency chain${via} increases backend pressure in ${dataPct.toFixed(2)}% of cycles.`;
+}
+
+// Rows of the "Instruction Info:" table. `sourceLines` holds the snippet line
+// of each instruction in assembly order.
+export function parseInstructionInfo(report: string, sourceLines: Array<number | undefined>): McaInstruction[] {
+    const instructions: McaInstruction[] = [];
+    const instrInfoMatch = report.match(/Instruction Info:[\s\S]*?\[1\]    \[2\]    \[3\].*?\n([\s\S]*?)(?=\n\nResources:|$)/);
+    if (!instrInfoMatch) {return instructions;}
+
+    let order = 1;
+    for (const line of instrInfoMatch[1].trim().split('\n')) {
+        const match = line.match(/^\s*(\d+)\s+(\d+)\s+([\d.]+)\s+.*?\s{2,}(.+)$/);
+        if (match) {
+            instructions.push({
+                order: order,
+                uops: match[1],
+                latency: match[2],
+                throughput: match[3],
+                instruction: match[4].trim(),
+                sourceLine: sourceLines[order - 1]
+            });
+            order++;
+        }
+    }
+    return instructions;
+}
+
+function parseRegion(report: string, name: string, sourceLines: Array<number | undefined>, sourceLine?: number): McaRegion {
+    const latencyMatch = report.match(/Total Cycles:\s+(\d+)/);
+    const throughputMatch = report.match(/Block RThroughput:\s+([\d.]+)/);
+    const iterationsMatch = report.match(/Iterations:\s+(\d+)/);
+
+    return {
+        name,
+        sourceLine,
+        latency: latencyMatch ? latencyMatch[1] : 'N/A',
+        throughput: throughputMatch ? throughputMatch[1] : 'N/A',
+        iterations: iterationsMatch ? iterationsMatch[1] : undefined,
+        instructions: parseInstructionInfo(report, sourceLines),
+        resourcePressure: parseResourcePressure(report),
+        timeline: parseTimeline(report),
+        bottlenecks: parseBottlenecks(report)
+    };
+}
+
+// Split the report on "[N] Code Region - name" headers. A report without
+// headers is one anonymous region covering the whole snippet.
+export function parseRegions(
+    report: string,
+    sourceMaps: Map<string, Array<number | undefined>>,
+    markers: RegionMarker[]
+): McaRegion[] {
+    const headers = [...report.matchAll(/^\[\d+\] Code Region(?: - (.*))?$/gm)];
+    if (!headers.length) {
+        return [parseRegion(report, '', sourceMaps.get('') ?? [])];
+    }
+
+    return headers.map((header, i) => {
+        const name = header[1]?.trim() ?? '';
+        const end = i + 1 < headers.length ? headers[i + 1].index : report.length;
+        const text = report.slice(header.index! + header[0].length, end);
+        const marker = findRegionMarker(markers, name);
+        return parseRegion(text, name, sourceMaps.get(name) ?? [], marker?.sourceLine);
+    });
+}
@@ -0,0 +1,283 @@
+/*
+ * Copyright (c) 2025, VectorCamp PC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { McaBottlenecks, McaResourcePressure, McaSpills, McaTimeline } from './types';
+import { escapeHtml } from '../utils/html';
+
+const STAGE_NAMES: Record<string, string> = {
+    'D': 'Dispatched',
+    'e': 'Executing',
+    'E': 'Executed',
+    'R': 'Retired',
+    '=': 'Waiting to execute',
+    '-': 'Waiting to retire',
+};
+
+export const REPORT_VIEW_STYLES = `
+            .tabs {
+                display: flex;
+                gap: 4px;
+                border-bottom: 2px solid var(--vscode-panel-border);
+                margin: 20px 0;
+            }
+            .tab {
+                background: transparent;
+                color: var(--vscode-foreground);
+                border: none;
+                padding: 8px 16px;
+                cursor: pointer;
+                font-family: var(--vscode-font-family);
+                font-size: 0.95em;
+                border-bottom: 2px solid transparent;
+                margin-bottom: -2px;
+            }
+            .tab:hover {
+                background: var(--vscode-list-hoverBackground);
+            }
+            .tab.active {
+                color: #FFA500;
+                border-bottom-color: #FFA500;
+                font-weight: 600;
+            }
+            .tab-content {
+                display: none;
+            }
+            .tab-content.active {
+                display: block;
+            }
+            .empty {
+                opacity: 0.7;
+                font-style: italic;
+            }
+            table.heatmap td, table.heatmap th {
+                text-align: center;
+                padding: 6px 8px;
+                font-size: 0.85em;
+            }
+            table.heatmap td.instruction, table.heatmap th.instruction {
+                text-align: left;
+                white-space: nowrap;
+            }
+            table.gantt {
+                width: auto;
+                border-collapse: separate;
+                border-spacing: 1px;
+            }
+            table.gantt td {
+                width: 14px;
+                min-width: 14px;
+                height: 18px;
+                padding: 0;
+                border: none;
+                font-size: 0.7em;
+                text-align: center;
+            }
+            table.gantt td.label {
+                width: auto;
+                padding: 0 8px;
+                white-space: nowrap;
+                text-align: left;
+                font-family: var(--vscode-editor-font-family);
+            }
+            .stage-D { background: rgba(100, 149, 237, 0.8); }
+            .stage-e { background: rgba(255, 165, 0, 0.8); }
+            .stage-E { background: rgba(255, 140, 0, 1); }
+            .stage-R { background: rgba(50, 205, 50, 0.8); }
+            .stage-wait { background: rgba(128, 128, 128, 0.35); }
+            .stage-retire-wait { background: rgba(128, 128, 128, 0.15); }
+            .legend-item {
+                display: inline-flex;
+                align-items: center;
+                gap: 6px;
+                margin-right: 16px;
+                font-size: 0.9em;
+            }
+            .legend-swatch {
+                width: 14px;
+                height: 14px;
+                display: inline-block;
+            }
+            .bottleneck-summary {
+                font-size: 1.1em;
+                padding: 15px;
+                background: var(--vscode-editor-inactiveSelectionBackground);
+                border-left: 4px solid #FF4500;
+                border-radius: 5px;
+                margin-bottom: 20px;
+            }
+            .bottleneck-summary.ok {
+                border-left-color: #32CD32;
+            }
+            tr.spill-row[data-line] {
+                cursor: pointer;
+            }
+`;
+
+function heatColor(value: number, max: number): string {
+    if (!value || !max) {return 'transparent';}
+    return `rgba(255, 140, 0, ${(0.15 + 0.85 * value / max).toFixed(2)})`;
+}
+
+function formatPressure(value: number): string {
+    return value ? value.toFixed(2) : '-';
+}
+
+export function renderResourcePressure(pressure: McaResourcePressure | null): string {
+    if (!pressure) {
+        return '<p class="empty">No resource pressure data in the llvm-mca report.</p>';
+    }
+
+    const header = pressure.resources
+        .map(r => `<th title="${escapeHtml(r)}">${escapeHtml(r)}</th>`)
+        .join('');
+
+    const iterMax = Math.max(0, ...pressure.perIteration);
+    const iterRow = pressure.perIteration
+        .map(v => `<td style="background: ${heatColor(v, iterMax)}">${formatPressure(v)}</td>`)
+        .join('');
+
+    const instrMax = Math.max(0, ...pressure.byInstruction.flatMap(i => i.pressure));
+    const instrRows = pressure.byInstruction.map(row => {
+        const cells = row.pressure
+            .map(v => `<td style="background: ${heatColor(v, instrMax)}">${formatPressure(v)}</td>`)
+            .join('');
+        return `<tr><td class="instruction">${escapeHtml(row.instruction)}</td>${cells}</tr>`;
+    }).join('\n');
+
+    return `
+        <h2> Resource Pressure per Iteration</h2>
+        <table class="heatmap">
+            <thead><tr><th class="instruction"></th>${header}</tr></thead>
+            <tbody><tr><td class="instruction"><strong>Total</strong></td>${iterRow}</tr></tbody>
+        </table>
+
+        <h2> Resource Pressure by Instruction</h2>
+        <table class="heatmap">
+            <thead><tr><th class="instruction">Instruction</th>${header}</tr></thead>
+            <tbody>${instrRows}</tbody>
+        </table>`;
+}
+
+function stageClass(ch: string): string {
+    switch (ch) {
+        case 'D': case 'e': case 'E': case 'R':
+            return `stage-${ch}`;
+        case '=':
+            return 'stage-wait';
+        case '-':
+            return 'stage-retire-wait';
+        default:
+            return '';
+    }
+}
+
+export function renderTimeline(timeline: McaTimeline | null): string {
+    if (!timeline || !timeline.entries.length) {
+        return '<p class="empty">No timeline data in the llvm-mca report.</p>';
+    }
+
+    const legend = Object.entries(STAGE_NAMES)
+        .map(([ch, name]) => `<span class="legend-item"><span class="legend-swatch ${stageClass(ch)}"></span>${ch} ${name}</span>`)
+        .join('');
+
+    const ruler = Array.from({ length: timeline.cycles }, (_, i) => `<td>${i % 5 === 0 ? i : ''}</td>`).join('');
+
+    const rows = timeline.entries.map(entry => {
+        const cells = Array.from(entry.stages.padEnd(timeline.cycles))
+            .map((ch, cycle) => {
+                const name = STAGE_NAMES[ch];
+                const title = name ? ` title="Cycle ${cycle}: ${name}"` : '';
+                return `<td class="${stageClass(ch)}"${title}></td>`;
+            })
+            .join('');
+        return `<tr><td class="label">[${entry.iteration},${entry.index}] ${escapeHtml(entry.instruction)}</td>${cells}</tr>`;
+    }).join('\n');
+
+    return `
+        <h2> Timeline (dispatch / execute / retire)</h2>
+        <div>${legend}</div>
+        <div style="overflow-x: auto;">
+            <table class="gantt">
+                <thead><tr><td class="label">[iteration,index] Instruction</td>${ruler}</tr></thead>
+                <tbody>${rows}</tbody>
+            </table>
+        </div>`;
+}
+
+function percentRow(label: string, value?: number): string {
+    return value === undefined ? '' : `<tr><td>${label}</td><td>${value.toFixed(2)}%</td></tr>`;
+}
+
+export function renderBottlenecks(bottlenecks: McaBottlenecks | null): string {
+    if (!bottlenecks) {
+        return '<p class="empty">No bottleneck analysis in the llvm-mca report.</p>';
+    }
+    if (!bottlenecks.found) {
+        return `<div class="bottleneck-summary ok">${escapeHtml(bottlenecks.summary)}</div>`;
+    }
+
+    const resourceRows = bottlenecks.resources
+        .map(r => `<tr><td>&nbsp;&nbsp;${escapeHtml(r.name)}</td><td>${r.percent.toFixed(2)}%</td></tr>`)
+        .join('');
+
+    return `
+        <div class="bottleneck-summary">${escapeHtml(bottlenecks.summary)}</div>
+        <table>
+            <thead><tr><th>Cause</th><th>Cycles with increased backend pressure</th></tr></thead>
+            <tbody>
+                ${percentRow('Total backend pressure', bottlenecks.backendPressure)}
+                ${percentRow('Resource pressure', bottlenecks.resourcePressure)}
+                ${resourceRows}
+                ${percentRow('Data dependencies', bottlenecks.dataDependencies)}
+                ${percentRow('&nbsp;&nbsp;Register dependencies', bottlenecks.registerDependencies)}
+                ${percentRow('&nbsp;&nbsp;Memory dependencies', bottlenecks.memoryDependencies)}
+            </tbody>
+        </table>
+        ${bottlenecks.criticalSequence.length ? `
+        <h2> Critical Sequence</h2>
+        <pre><code>${escapeHtml(bottlenecks.criticalSequence.join('\n'))}</code></pre>` : ''}`;
+}
+
+// Vector stack traffic of the whole compiled snippet, rows link to their source line
+export function renderSpills(spills: McaSpills | undefined, baseLine: number): string {
+    if (!spills?.accesses.length) {return '';}
+
+    const classRows = Object.entries(spills.byClass)
+        .map(([cls, counts]) => `<tr><td>${escapeHtml(cls)}</td><td>${counts.spills}</td><td>${counts.reloads}</td></tr>`)
+        .join('');
+    const accessRows = spills.accesses.map(a => {
+        const docLine = a.sourceLine !== undefined ? baseLine + a.sourceLine : undefined;
+        return `<tr class="spill-row"${docLine !== undefined ? ` data-line="${docLine}" title="Reveal source line"` : ''}>` +
+            `<td>${docLine !== undefined ? docLine + 1 : '-'}</td><td>${a.kind}</td><td>${escapeHtml(a.registerClass)}</td>` +
+            `<td class="instruction">${escapeHtml(a.instruction)}</td></tr>`;
+    }).join('');
+
+    return `
+        <div class="section">
+            <h2> Register Spills</h2>
+            <div class="bottleneck-summary">${spills.spills} vector register spill(s) and ${spills.reloads} reload(s) through the stack frame</div>
+            <table>
+                <thead><tr><th>Register class</th><th>Spills</th><th>Reloads</th></tr></thead>
+                <tbody>${classRows}</tbody>
+            </table>
+            <details>
+                <summary>Stack accesses</summary>
+                <table>
+                    <thead><tr><th>Line</th><th>Kind</th><th>Class</th><th>Instruction</th></tr></thead>
+                    <tbody>${accessRows}</tbody>
+                </table>
+            </details>
+        </div>`;
+}
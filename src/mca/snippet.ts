@@ -0,0 +1,239 @@
+/*
+ * Copyright (c) 2025, VectorCamp PC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { McaSnippet } from './types';
+
+// analyzeMca already includes the right intrinsics header for the chosen CPU;
+// pulling in the file's own (possibly for another arch) would break cross builds.
+const ARCH_HEADER_REGEX = /^(\w*intrin\.h|arm_neon\.h|arm_sve\.h|altivec\.h|riscv_vector\.h)$/;
+
+const FUNCTION_KINDS = [
+    vscode.SymbolKind.Function,
+    vscode.SymbolKind.Method,
+    vscode.SymbolKind.Constructor,
+];
+
+export interface ResolvedSnippet {
+    snippet: McaSnippet;
+    baseLine: number;   // Document line of the first line of snippet.code
+    description: string;
+}
+
+export async function getFunctionSymbols(document: vscode.TextDocument): Promise<vscode.DocumentSymbol[]> {
+    let symbols: Array<vscode.DocumentSymbol | vscode.SymbolInformation> | undefined;
+    try {
+        symbols = await vscode.commands.executeCommand<Array<vscode.DocumentSymbol | vscode.SymbolInformation>>(
+            'vscode.executeDocumentSymbolProvider', document.uri
+        );
+    } catch (e) {
+        console.warn('Document symbol provider failed:', e);
+    }
+    if (!symbols) {return [];}
+
+    const functions: vscode.DocumentSymbol[] = [];
+    const visit = (list: Array<vscode.DocumentSymbol | vscode.SymbolInformation>) => {
+        for (const symbol of list) {
+            if ('children' in symbol) {
+                if (FUNCTION_KINDS.includes(symbol.kind)) {
+                    functions.push(symbol);
+                }
+                visit(symbol.children);
+            } else if (FUNCTION_KINDS.includes(symbol.kind)) {
+                // Flat SymbolInformation providers only give us the location
+                functions.push(new vscode.DocumentSymbol(
+                    symbol.name, '', symbol.kind, symbol.location.range, symbol.location.range
+                ));
+            }
+        }
+    };
+    visit(symbols);
+    return functions;
+}
+
+// Innermost function whose range contains the position
+function findEnclosingFunction(functions: vscode.DocumentSymbol[], position: vscode.Position): vscode.DocumentSymbol | undefined {
+    return functions
+        .filter(f => f.range.contains(position))
+        .sort((a, b) => (a.range.end.line - a.range.start.line) - (b.range.end.line - b.range.start.line))[0];
+}
+
+// Fallback when no symbol provider is installed
+function looksLikeFunctionDefinition(text: string): boolean {
+    return /^[\w\s\*&:<>,]+\([^;{}]*\)\s*(const\s*)?(noexcept\s*)?\{/m.test(text);
+}
+
+function collectIncludes(document: vscode.TextDocument): string[] {
+    const includes: string[] = [];
+    for (let i = 0; i < document.lineCount; i++) {
+        const match = document.lineAt(i).text.match(/^\s*#\s*include\s*([<"])([^>"]+)[>"]/);
+        if (!match || ARCH_HEADER_REGEX.test(path.basename(match[2]))) {continue;}
+
+        const spec = match[1] === '<' ? `<${match[2]}>` : `"${match[2]}"`;
+        // Cross builds have no libc headers; skip whatever is not available
+        includes.push(`#if __has_include(${spec})\n#include ${spec}\n#endif`);
+    }
+    return includes;
+}
+
+interface TypedefDecl {
+    name: string;
+    text: string;
+}
+
+// Top-level typedef statements, including multi-line struct/union/enum bodies
+function collectTypedefs(text: string): TypedefDecl[] {
+    const typedefs: TypedefDecl[] = [];
+    const regex = /(^|[;}\n])\s*typedef\b/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = regex.exec(text)) !== null) {
+        const start = text.indexOf('typedef', match.index);
+        let depth = 0;
+        let end = -1;
+        for (let i = start; i < text.length; i++) {
+            const ch = text[i];
+            if (ch === '{') {depth++;}
+            else if (ch === '}') {depth--;}
+            else if (ch === ';' && depth === 0) {
+                end = i + 1;
+                break;
+            }
+        }
+        if (end === -1) {break;}
+
+        const decl = text.slice(start, end);
+        const pointerName = decl.match(/\(\s*\*\s*(\w+)\s*\)/);
+        const plainName = decl.replace(/\[[^\]]*\]/g, '').match(/(\w+)\s*;$/);
+        const name = pointerName?.[1] || plainName?.[1];
+        if (name) {
+            typedefs.push({ name, text: decl });
+        }
+        regex.lastIndex = end;
+    }
+    return typedefs;
+}
+
+// Typedefs the code references, directly or through other typedefs, in file order
+function selectTypedefs(typedefs: TypedefDecl[], code: string): string[] {
+    const needed = new Set<string>();
+    const pending = [code];
+
+    while (pending.length) {
+        const source = pending.pop()!;
+        for (const td of typedefs) {
+            if (!needed.has(td.name) && new RegExp(`\\b${td.name}\\b`).test(source)) {
+                needed.add(td.name);
+                pending.push(td.text);
+            }
+        }
+    }
+    return typedefs.filter(td => needed.has(td.name)).map(td => td.text);
+}
+
+function buildPrelude(document: vscode.TextDocument, excluded: vscode.Range, code: string): string {
+    const textOutside = document.getText(new vscode.Range(new vscode.Position(0, 0), excluded.start)) +
+        '\n' + document.getText(new vscode.Range(excluded.end, document.lineAt(document.lineCount - 1).range.end));
+
+    const parts = [
+        ...collectIncludes(document),
+        ...selectTypedefs(collectTypedefs(textOutside), code),
+    ];
+    return parts.length ? parts.join('\n') + '\n' : '';
+}
+
+function getIncludeDirs(document: vscode.TextDocument): string[] {
+    return document.uri.scheme === 'file' ? [path.dirname(document.uri.fsPath)] : [];
+}
+
+function getSourceFile(document: vscode.TextDocument): string | undefined {
+    return document.uri.scheme === 'file' ? document.uri.fsPath : undefined;
+}
+
+// A whole function definition, compiled as-is
+export function resolveFunctionSnippet(document: vscode.TextDocument, fn: vscode.DocumentSymbol): ResolvedSnippet {
+    const range = new vscode.Range(fn.range.start.line, 0, fn.range.end.line, document.lineAt(fn.range.end.line).text.length);
+    const code = document.getText(range);
+    return {
+        snippet: { code, prelude: buildPrelude(document, range, code), includeDirs: getIncludeDirs(document), sourceFile: getSourceFile(document) },
+        baseLine: range.start.line,
+        description: `function ${fn.name}`
+    };
+}
+
+// The whole document, compiled as its own translation unit
+export function resolveFileSnippet(document: vscode.TextDocument): ResolvedSnippet {
+    return {
+        snippet: {
+            code: document.getText(),
+            includeDirs: getIncludeDirs(document),
+            sourceFile: getSourceFile(document),
+            standalone: true,
+            language: document.languageId === 'c' ? 'c' : 'cpp'
+        },
+        baseLine: 0,
+        description: path.basename(document.fileName)
+    };
+}
+
+// Work out what to compile: the selection, or the function around the cursor.
+// Loose statements are wrapped in a synthesized function so they compile.
+export async function resolveMcaSnippet(editor: vscode.TextEditor): Promise<ResolvedSnippet | null> {
+    const document = editor.document;
+    const selection = editor.selection;
+    const functions = await getFunctionSymbols(document);
+    const includeDirs = getIncludeDirs(document);
+
+    if (selection.isEmpty) {
+        const fn = findEnclosingFunction(functions, selection.active);
+        return fn ? resolveFunctionSnippet(document, fn) : null;
+    }
+
+    // Expand to whole lines so the line mapping stays exact
+    const range = new vscode.Range(selection.start.line, 0, selection.end.line, document.lineAt(selection.end.line).text.length);
+    const code = document.getText(range);
+    const prelude = buildPrelude(document, range, code);
+
+    const containsFunction = functions.length
+        ? functions.some(f => range.contains(f.range))
+        : looksLikeFunctionDefinition(code);
+    if (containsFunction) {
+        return { snippet: { code, prelude, includeDirs, sourceFile: getSourceFile(document) }, baseLine: range.start.line, description: 'selection' };
+    }
+
+    // Reuse the enclosing function's signature so parameters stay in scope
+    const enclosing = findEnclosingFunction(functions, selection.start);
+    let signature = 'void __simd_mca_snippet(void)';
+    if (enclosing) {
+        const fnText = document.getText(enclosing.range);
+        const brace = fnText.indexOf('{');
+        if (brace > 0) {
+            signature = fnText.slice(0, brace).replace(/\s+/g, ' ').trim();
+        }
+    }
+
+    return {
+        snippet: {
+            code,
+            prelude: `${prelude}${signature} {\n`,
+            epilogue: '\n}\n',
+            includeDirs,
+            sourceFile: getSourceFile(document)
+        },
+        baseLine: range.start.line,
+        description: enclosing ? `statements in ${enclosing.name}` : 'statements'
+    };
+}
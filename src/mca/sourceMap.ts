@@ -0,0 +1,184 @@
+/*
+ * Copyright (c) 2025, VectorCamp PC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { McaResults } from './types';
+
+let lineDecorationType: vscode.TextEditorDecorationType | null = null;
+
+// Lines llvm-mca treats as instructions: anything that is not blank,
+// a directive, a label or a comment. Labels may carry a trailing comment,
+// e.g. clang's `_Z3addPfS_S_i:   # @_Z3addPfS_S_i` or `add:  // @add`.
+export function isInstructionLine(line: string): boolean {
+    const trimmed = line.trim();
+    if (!trimmed) {return false;}
+    if (/^[.#;@]/.test(trimmed) || trimmed.startsWith('//')) {return false;}
+    const code = trimmed.replace(/\s+(#|\/\/|@).*$/, '');
+    if (/^[\w.$@"]+:$/.test(code)) {return false;}
+    return true;
+}
+
+// Calls `visit` for each instruction in the assembly with the 0-based line of
+// the analyzed snippet it came from. `headerLines` is the number of prelude
+// lines analyzeMca put in front of the snippet. Instructions located in other
+// files (inlined header code) inherit the last line seen in the source file,
+// which is the call site in clang's line tables. GCC's -g1 line tables jump
+// straight into the header without one, so with `inheritHeaderLines` off those
+// instructions are left unmapped rather than given a wrong line.
+//
+// `region` is the enclosing LLVM-MCA-BEGIN/END region, '' before the first
+// marker, and null between an END and the next BEGIN.
+export function forEachSourceInstruction(
+    asm: string,
+    sourceFile: string,
+    headerLines: number,
+    visit: (instruction: string, sourceLine: number | undefined, region: string | null) => void,
+    inheritHeaderLines = true
+) {
+    const sourceFileIds = new Set<string>();
+    let region: string | null = '';
+    let currentLine: number | undefined;
+    let inDebugSection = false;
+
+    for (const line of asm.split('\n')) {
+        const sectionMatch = line.match(/^\s*\.(section|text|data|bss)\b\s*([^,\s]*)/);
+        if (sectionMatch) {
+            inDebugSection = sectionMatch[1] === 'section' && sectionMatch[2].startsWith('.debug');
+            continue;
+        }
+        if (inDebugSection) {continue;}
+
+        const regionMatch = line.match(/LLVM-MCA-(BEGIN|END)\b\s*(\S*)/);
+        if (regionMatch) {
+            region = regionMatch[1] === 'BEGIN' ? regionMatch[2] : null;
+            continue;
+        }
+
+        const fileMatch = line.match(/^\s*\.file\s+(\d+)\s+(?:"[^"]*"\s+)?"([^"]*)"/);
+        if (fileMatch) {
+            if (path.basename(fileMatch[2]) === sourceFile) {
+                sourceFileIds.add(fileMatch[1]);
+            }
+            continue;
+        }
+
+        const locMatch = line.match(/^\s*\.loc\s+(\d+)\s+(\d+)/);
+        if (locMatch) {
+            const srcLine = parseInt(locMatch[2], 10);
+            if (sourceFileIds.has(locMatch[1]) && srcLine > 0) {
+                currentLine = srcLine > headerLines ? srcLine - headerLines - 1 : undefined;
+            } else if (!inheritHeaderLines && !sourceFileIds.has(locMatch[1])) {
+                currentLine = undefined;
+            }
+            continue;
+        }
+
+        if (isInstructionLine(line)) {
+            visit(line.trim(), currentLine, region);
+        }
+    }
+}
+
+// For each instruction llvm-mca analyzes, the snippet line it came from.
+// Mappings are keyed by llvm-mca region name. Instructions outside any
+// LLVM-MCA-BEGIN/END pair go under '', which is only meaningful when the
+// assembly has no markers at all.
+export function mapInstructionsToSource(
+    asm: string,
+    sourceFile: string,
+    headerLines: number,
+    inheritHeaderLines = true
+): Map<string, Array<number | undefined>> {
+    const mappings = new Map<string, Array<number | undefined>>([['', []]]);
+
+    forEachSourceInstruction(asm, sourceFile, headerLines, (_instruction, sourceLine, region) => {
+        // Outside any region, llvm-mca ignores these
+        if (region === null) {return;}
+        let mapping = mappings.get(region);
+        if (!mapping) {
+            mapping = [];
+            mappings.set(region, mapping);
+        }
+        mapping.push(sourceLine);
+    }, inheritHeaderLines);
+
+    return mappings;
+}
+
+// Drop line-table directives and DWARF sections so the report shows the
+// same assembly a build without -g would produce.
+export function stripDebugInfo(asm: string): string {
+    const kept: string[] = [];
+    let inDebugSection = false;
+
+    for (const line of asm.split('\n')) {
+        const sectionMatch = line.match(/^\s*\.(section|text|data|bss)\b\s*([^,\s]*)/);
+        if (sectionMatch) {
+            inDebugSection = sectionMatch[1] === 'section' && sectionMatch[2].startsWith('.debug');
+        }
+        if (inDebugSection) {continue;}
+        if (/^\s*\.(loc|file)\s+\d/.test(line) || /^\s*\.cfi_sections\b/.test(line)) {continue;}
+        kept.push(line);
+    }
+
+    return kept.join('\n');
+}
+
+// Show summed uops/latency at the end of every source line that produced instructions
+export function decorateSourceLines(editor: vscode.TextEditor, results: McaResults, baseLine: number): vscode.Disposable {
+    clearSourceDecorations();
+
+    const totals = new Map<number, { uops: number; latency: number; count: number }>();
+    for (const instr of results.instructions) {
+        if (instr.sourceLine === undefined) {continue;}
+        const docLine = baseLine + instr.sourceLine;
+        const entry = totals.get(docLine) || { uops: 0, latency: 0, count: 0 };
+        entry.uops += parseFloat(instr.uops) || 0;
+        entry.latency += parseFloat(instr.latency) || 0;
+        entry.count++;
+        totals.set(docLine, entry);
+    }
+
+    lineDecorationType = vscode.window.createTextEditorDecorationType({
+        after: {
+            margin: '0 0 0 2em',
+            color: new vscode.ThemeColor('editorCodeLens.foreground'),
+            fontStyle: 'italic'
+        }
+    });
+
+    const decorations: vscode.DecorationOptions[] = [];
+    for (const [docLine, entry] of totals) {
+        if (docLine >= editor.document.lineCount) {continue;}
+        const range = editor.document.lineAt(docLine).range;
+        decorations.push({
+            range,
+            renderOptions: {
+                after: { contentText: `${entry.uops} uops · ${entry.latency} lat (${entry.count} instr)` }
+            }
+        });
+    }
+
+    editor.setDecorations(lineDecorationType, decorations);
+    return lineDecorationType;
+}
+
+export function clearSourceDecorations() {
+    if (lineDecorationType) {
+        lineDecorationType.dispose();
+        lineDecorationType = null;
+    }
+}
@@ -0,0 +1,214 @@
+/*
+ * Copyright (c) 2025, VectorCamp PC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import * as vscode from 'vscode';
+import { McaSpills, McaStackAccess } from './types';
+import { forEachSourceInstruction } from './sourceMap';
+import { DIAGNOSTIC_SOURCE_SUFFIX } from './diagnostics';
+import { getAsmCommentPrefix } from './regions';
+
+type StackAccess = Pick<McaStackAccess, 'kind' | 'registerClass'>;
+
+// Operands split on top-level commas, so "16(%rsp,%rax)" and "{d8, d9}" stay whole
+function splitOperands(operands: string): string[] {
+    const result: string[] = [];
+    let depth = 0;
+    let current = '';
+    for (const ch of operands) {
+        if ('([{'.includes(ch)) {depth++;}
+        if (')]}'.includes(ch)) {depth--;}
+        if (ch === ',' && depth === 0) {
+            result.push(current.trim());
+            current = '';
+        } else {
+            current += ch;
+        }
+    }
+    if (current.trim()) {
+        result.push(current.trim());
+    }
+    return result;
+}
+
+function access(isStore: boolean, registerClass: string): StackAccess {
+    return { kind: isStore ? 'spill' : 'reload', registerClass };
+}
+
+// AT&T syntax, source first: "vmovaps %ymm0, 32(%rsp)" spills, the reverse reloads
+function classifyX86(mnemonic: string, ops: string[]): StackAccess | undefined {
+    if (!/^(v|k)?mov/.test(mnemonic) || ops.length !== 2) {return undefined;}
+    const register = (op: string) => op.match(/^%(xmm|ymm|zmm|k)\d+$/)?.[1];
+    // The frame pointer too: GCC addresses realigned AVX spill slots through it
+    const isStack = (op: string) => /\(%[re]?(sp|bp)\b/.test(op);
+
+    const [src, dst] = ops;
+    if (register(src) && isStack(dst)) {return access(true, register(src)!);}
+    if (isStack(src) && register(dst)) {return access(false, register(dst)!);}
+    return undefined;
+}
+
+// "str q0, [sp, #16]", "stp q0, q1, [sp, #32]", "ldr z0, [sp, #1, mul vl]"
+function classifyAArch64(mnemonic: string, ops: string[]): StackAccess | undefined {
+    if (!ops.some(op => /^\[sp\b/.test(op))) {return undefined;}
+    const store = /^st/.test(mnemonic);
+    if (/^(st|ld)(r|p|ur)$/.test(mnemonic)) {
+        const cls = ops[0].match(/^([qdzp])\d+$/)?.[1];
+        return cls ? access(store, cls) : undefined;
+    }
+    if (/^(st|ld)1$/.test(mnemonic) && /^\{\s*v\d+/.test(ops[0])) {
+        return access(store, 'v');
+    }
+    return undefined;
+}
+
+// "vstr d8, [sp, #8]", "vst1.64 {d8, d9}, [sp:128]", "vpush {d8-d15}"
+function classifyArm(mnemonic: string, ops: string[]): StackAccess | undefined {
+    const base = mnemonic.split('.')[0];
+    if (base === 'vpush' || base === 'vpop') {
+        const cls = ops[0]?.match(/^\{\s*([dq])\d+/)?.[1];
+        return cls ? access(base === 'vpush', cls) : undefined;
+    }
+    if (!ops.some(op => /^\[sp\b/.test(op))) {return undefined;}
+    if (base === 'vstr' || base === 'vldr') {
+        const cls = ops[0].match(/^([dq])\d+$/)?.[1];
+        return cls ? access(base === 'vstr', cls) : undefined;
+    }
+    if (/^v(st|ld)1$/.test(base)) {
+        const cls = ops[0].match(/^\{\s*([dq])\d+/)?.[1];
+        return cls ? access(base === 'vst1', cls) : undefined;
+    }
+    return undefined;
+}
+
+// r1 is the stack pointer: "stxv 34, 48(1)", or indexed "stxvd2x 63, 1, 9"
+function classifyPowerPC(mnemonic: string, ops: string[]): StackAccess | undefined {
+    const match = mnemonic.match(/^(st|l)(xv\w*|vxl?)$/);
+    if (!match) {return undefined;}
+    const onStack = ops.length === 2 ? /\(1\)$/.test(ops[1]) : ops[1] === '1' || ops[2] === '1';
+    if (!onStack) {return undefined;}
+    return access(match[1] === 'st', match[2].startsWith('vx') ? 'v' : 'vs');
+}
+
+// "vs1r.v v8, (sp)", "vl1re8.v v8, (sp)"
+function classifyRiscv(mnemonic: string, ops: string[]): StackAccess | undefined {
+    const match = mnemonic.match(/^v(s|l)(\d+re?\d*|e\d+)\.v$/);
+    if (!match || ops[1] !== '(sp)') {return undefined;}
+    return access(match[1] === 's', 'v');
+}
+
+// "vst $vr0, $sp, 16", "xvld $xr0, $sp, 32"
+function classifyLoongArch(mnemonic: string, ops: string[]): StackAccess | undefined {
+    const match = mnemonic.match(/^(x?v)(st|ld)$/);
+    if (!match || !/^\$(sp|r3)$/.test(ops[1] ?? '')) {return undefined;}
+    return access(match[2] === 'st', match[1] === 'xv' ? 'xr' : 'vr');
+}
+
+// r15 is the stack pointer: "vst %v0, 160(%r15)"
+function classifySystemZ(mnemonic: string, ops: string[]): StackAccess | undefined {
+    if (!/^v(st|l)$/.test(mnemonic) || !/\(%r15\)$/.test(ops[1] ?? '')) {return undefined;}
+    return access(mnemonic === 'vst', 'v');
+}
+
+const CLASSIFIERS: Record<string, (mnemonic: string, ops: string[]) => StackAccess | undefined> = {
+    'x86-64': classifyX86,
+    'aarch64': classifyAArch64,
+    'arm': classifyArm,
+    'ppc64le': classifyPowerPC,
+    'riscv64': classifyRiscv,
+    'loongarch64': classifyLoongArch,
+    'systemz': classifySystemZ,
+};
+
+export function classifyStackAccess(llvmTarget: string, instruction: string): StackAccess | undefined {
+    const classify = CLASSIFIERS[llvmTarget];
+    const comment = instruction.indexOf(getAsmCommentPrefix(llvmTarget));
+    const match = (comment === -1 ? instruction : instruction.slice(0, comment)).match(/^(\S+)\s*(.*)$/);
+    if (!classify || !match) {return undefined;}
+    return classify(match[1].toLowerCase(), splitOperands(match[2]));
+}
+
+// Vector stores to and loads from the stack frame in the compiled snippet. At
+// -O1 and above these are almost always register spills and their reloads,
+// though saves of callee-saved registers and vector locals count too.
+export function findStackSpills(
+    asm: string,
+    sourceFile: string,
+    headerLines: number,
+    llvmTarget: string,
+    inheritHeaderLines = true
+): McaSpills {
+    const spills: McaSpills = { spills: 0, reloads: 0, byClass: {}, accesses: [] };
+
+    forEachSourceInstruction(asm, sourceFile, headerLines, (instruction, sourceLine) => {
+        const found = classifyStackAccess(llvmTarget, instruction);
+        if (!found) {return;}
+
+        const counts = spills.byClass[found.registerClass] ?? { spills: 0, reloads: 0 };
+        if (found.kind === 'spill') {
+            spills.spills++;
+            counts.spills++;
+        } else {
+            spills.reloads++;
+            counts.reloads++;
+        }
+        spills.byClass[found.registerClass] = counts;
+        spills.accesses.push({ ...found, instruction: instruction.replace(/\s+/g, ' '), sourceLine });
+    }, inheritHeaderLines);
+    return spills;
+}
+
+// "ymm: 2 spills, 3 reloads; xmm: 1 spill, 1 reload"
+export function formatSpillCounts(spills: McaSpills): string {
+    const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? '' : 's'}`;
+    return Object.entries(spills.byClass)
+        .map(([cls, counts]) => `${cls}: ${plural(counts.spills, 'spill')}, ${plural(counts.reloads, 'reload')}`)
+        .join('; ');
+}
+
+// One warning per analyzed function, kept until that function is analyzed again
+export class SpillDiagnostics {
+    private readonly collection = vscode.languages.createDiagnosticCollection('simd-mca-spills');
+
+    publish(document: vscode.TextDocument, baseLine: number, description: string, spills: McaSpills | undefined) {
+        const others = (this.collection.get(document.uri) ?? []).filter(d => d.range.start.line !== baseLine);
+        if (!spills?.accesses.length) {
+            this.collection.set(document.uri, others);
+            return;
+        }
+
+        const line = document.lineAt(Math.min(baseLine, document.lineCount - 1));
+        const diagnostic = new vscode.Diagnostic(
+            new vscode.Range(line.range.start.line, line.firstNonWhitespaceCharacterIndex, line.range.start.line, line.range.end.character),
+            `${description}: ${spills.spills} vector register spill(s) and ${spills.reloads} reload(s) through the stack (${formatSpillCounts(spills)})`,
+            vscode.DiagnosticSeverity.Warning
+        );
+        diagnostic.source = `llvm-mca ${DIAGNOSTIC_SOURCE_SUFFIX}`;
+        diagnostic.relatedInformation = spills.accesses
+            .filter(a => a.sourceLine !== undefined)
+            .map(a => new vscode.DiagnosticRelatedInformation(
+                new vscode.Location(document.uri, document.lineAt(Math.min(baseLine + a.sourceLine!, document.lineCount - 1)).range),
+                `${a.kind}: ${a.instruction}`
+            ));
+
+        this.collection.set(document.uri, [...others, diagnostic]);
+    }
+
+    register(context: vscode.ExtensionContext) {
+        context.subscriptions.push(
+            this.collection,
+            vscode.workspace.onDidCloseTextDocument(document => this.collection.delete(document.uri))
+        );
+    }
+}
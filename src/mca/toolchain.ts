@@ -0,0 +1,169 @@
+/*
+ * Copyright (c) 2025, VectorCamp PC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import * as vscode from 'vscode';
+import { RegionMode } from './regions';
+import { CompilerKind, getGccCrossCompiler, getGccCrossTargets } from './compilers';
+import { runProcess } from './process';
+
+// Probing a toolchain should be instant; a hung binary must not block the quick pick
+const PROBE_TIMEOUT_MS = 10000;
+
+export interface ToolchainSettings {
+    compiler: CompilerKind;
+    compilerPath: string;   // clang
+    gccPath: string;
+    llvmMcaPath: string;
+    optimizationLevel: string;
+    extraCompilerFlags: string[];
+    extraMcaFlags: string[];
+    regionMode: RegionMode;
+    timeoutSeconds: number;  // Per compiler / llvm-mca invocation, 0 for no limit
+}
+
+// Resolved against the given document so each workspace folder can pin its own toolchain
+export function getToolchainSettings(scope?: vscode.Uri): ToolchainSettings {
+    const config = vscode.workspace.getConfiguration('code.simd.info', scope);
+    return {
+        compiler: config.get<CompilerKind>('compiler', 'clang'),
+        compilerPath: config.get<string>('compilerPath', 'clang') || 'clang',
+        gccPath: config.get<string>('gccPath', 'gcc') || 'gcc',
+        llvmMcaPath: config.get<string>('llvmMcaPath', 'llvm-mca') || 'llvm-mca',
+        optimizationLevel: config.get<string>('optimizationLevel', 'O2') || 'O2',
+        extraCompilerFlags: config.get<string[]>('extraCompilerFlags', []),
+        extraMcaFlags: config.get<string[]>('extraMcaFlags', []),
+        regionMode: config.get<RegionMode>('mcaRegions', 'auto'),
+        timeoutSeconds: Math.max(0, config.get<number>('mcaTimeout', 60)),
+    };
+}
+
+// Executable that compiles for the given LLVM target, or undefined if none is configured
+export function getCompilerExecutable(toolchain: ToolchainSettings, llvmTarget: string, isCross: boolean): string | undefined {
+    if (toolchain.compiler === 'clang') {return toolchain.compilerPath;}
+    return isCross ? getGccCrossCompiler(toolchain.gccPath, llvmTarget) : toolchain.gccPath;
+}
+
+// Keyed by "<compiler>|<llvm-mca>" since workspace folders may use different toolchains
+const registeredTargets = new Map<string, Promise<Set<string> | null>>();
+
+// Drop a cached probe that failed, unless a newer one has replaced it already
+export function forgetFailure<T>(cache: Map<string, Promise<T>>, key: string, promise: Promise<T>, failed: boolean) {
+    if (failed && cache.get(key) === promise) {
+        cache.delete(key);
+    }
+}
+
+// Parse the "Registered Targets:" block printed by `clang -print-targets`
+// and `llvm-mca --version`, e.g. "    aarch64    - AArch64 (little endian)"
+export function parseRegisteredTargets(output: string): Set<string> {
+    const targets = new Set<string>();
+    const start = output.indexOf('Registered Targets:');
+    if (start === -1) {return targets;}
+
+    for (const line of output.slice(start).split('\n').slice(1)) {
+        const match = line.match(/^\s+(\S+)\s+-\s/);
+        if (match) {
+            targets.add(match[1]);
+        }
+    }
+    return targets;
+}
+
+async function probeTargets(command: string, args: string[]): Promise<Set<string>> {
+    const { stdout } = await runProcess(command, args, { timeoutMs: PROBE_TIMEOUT_MS });
+    return parseRegisteredTargets(stdout);
+}
+
+// Cross gcc binaries installed next to the configured gcc, by LLVM target name
+async function probeGccTargets(gccPath: string): Promise<Set<string>> {
+    const found = await Promise.all(getGccCrossTargets().map(async target => {
+        try {
+            await runProcess(getGccCrossCompiler(gccPath, target)!, ['--version'], { timeoutMs: PROBE_TIMEOUT_MS });
+            return target;
+        } catch {
+            return undefined;
+        }
+    }));
+    return new Set(found.filter((t): t is string => !!t));
+}
+
+// Targets both the compiler and llvm-mca were built with. Resolves to null when
+// the toolchain cannot be probed, so callers can fall back to host-only targets.
+// A failed probe is not remembered: it runs again once a path is fixed or a
+// tool that timed out answers.
+export function getRegisteredTargets(toolchain: ToolchainSettings): Promise<Set<string> | null> {
+    const compilerPath = toolchain.compiler === 'clang' ? toolchain.compilerPath : toolchain.gccPath;
+    const key = `${compilerPath}|${toolchain.llvmMcaPath}`;
+    let targets = registeredTargets.get(key);
+    if (!targets) {
+        const probe = (async () => {
+            try {
+                const [compilerTargets, mcaTargets] = await Promise.all([
+                    toolchain.compiler === 'clang'
+                        ? probeTargets(toolchain.compilerPath, ['-print-targets'])
+                        : probeGccTargets(toolchain.gccPath),
+                    probeTargets(toolchain.llvmMcaPath, ['--version'])
+                ]);
+                const common = [...compilerTargets].filter(t => mcaTargets.has(t));
+                console.log('Registered LLVM targets:', common.join(', '));
+                return new Set(common);
+            } catch (e) {
+                console.warn('Failed to probe LLVM registered targets:', e);
+                return null;
+            }
+        })();
+        registeredTargets.set(key, probe);
+        void probe.then(result => forgetFailure(registeredTargets, key, probe, !result));
+        targets = probe;
+    }
+    return targets;
+}
+
+const mcaVersionOutputs = new Map<string, Promise<string | null>>();
+
+// Output of `llvm-mca --version`, or null when llvm-mca cannot be run
+function getMcaVersionOutput(llvmMcaPath: string): Promise<string | null> {
+    let output = mcaVersionOutputs.get(llvmMcaPath);
+    if (!output) {
+        const run = runProcess(llvmMcaPath, ['--version'], { timeoutMs: PROBE_TIMEOUT_MS })
+            .then(({ stdout }) => stdout)
+            .catch(e => {
+                console.warn('Failed to run llvm-mca --version:', e);
+                return null;
+            });
+        mcaVersionOutputs.set(llvmMcaPath, run);
+        void run.then(result => forgetFailure(mcaVersionOutputs, llvmMcaPath, run, result === null));
+        output = run;
+    }
+    return output;
+}
+
+// "Host CPU: znver3" from `llvm-mca --version`: the CPU -mcpu=native resolves to
+export function parseHostCpu(output: string): string | null {
+    const match = output.match(/Host CPU:\s*(\S+)/);
+    return match ? match[1] : null;
+}
+
+export async function getHostCpu(toolchain: ToolchainSettings): Promise<string | null> {
+    const output = await getMcaVersionOutput(toolchain.llvmMcaPath);
+    return output ? parseHostCpu(output) : null;
+}
+
+// "LLVM version 18.1.3", including any vendor prefix such as "Ubuntu"
+export async function getLlvmMcaVersion(toolchain: ToolchainSettings): Promise<string | null> {
+    const output = await getMcaVersionOutput(toolchain.llvmMcaPath);
+    const match = output?.match(/^.*LLVM version \S+/m);
+    return match ? match[0].trim() : null;
+}
@@ -0,0 +1,127 @@
+/*
+ * Copyright (c) 2025, VectorCamp PC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+export interface CpuConfig {
+    label: string;
+    category: string;
+    target?: string;
+    llvmTarget?: string;  // Registered LLVM target name, e.g. "x86-64", "aarch64"
+    mcpu?: string;
+    march?: string;
+    useNative?: boolean;
+    headers?: string[];   // Intrinsics headers, when not the defaults for llvmTarget
+}
+
+export interface McaSnippet {
+    code: string;           // Line 0 of the code is what sourceLine values are relative to
+    prelude?: string;       // Placed between the generated headers and the code
+    epilogue?: string;
+    includeDirs?: string[];
+    sourceFile?: string;    // File the code was taken from, to look up its compile command
+    standalone?: boolean;   // A whole translation unit: compiled as-is, without generated headers
+    language?: 'c' | 'cpp'; // Defaults to C++
+}
+
+// Flags taken from the project's compile_commands.json
+export interface InheritedFlags {
+    database: string;   // Path of the compile_commands.json
+    file: string;       // Source file of the entry the flags came from
+    flags: string[];
+}
+
+export interface McaInstruction {
+    order: number;
+    uops: string;
+    latency: string;
+    throughput: string;
+    instruction: string;
+    sourceLine?: number;  // 0-based line within the analyzed snippet
+}
+
+export interface McaResourcePressure {
+    resources: string[];
+    perIteration: number[];
+    byInstruction: Array<{ instruction: string; pressure: number[] }>;
+}
+
+export interface McaTimelineEntry {
+    iteration: number;
+    index: number;
+    stages: string;  // One character per cycle: D, e, E, R, =, -, .
+    instruction: string;
+}
+
+export interface McaTimeline {
+    cycles: number;
+    entries: McaTimelineEntry[];
+}
+
+export interface McaBottlenecks {
+    found: boolean;
+    backendPressure?: number;
+    resourcePressure?: number;
+    dataDependencies?: number;
+    registerDependencies?: number;
+    memoryDependencies?: number;
+    resources: Array<{ name: string; percent: number }>;
+    criticalSequence: string[];
+    summary: string;
+}
+
+// One llvm-mca code region. Without LLVM-MCA-BEGIN/END markers the whole
+// snippet is a single region with an empty name.
+export interface McaRegion {
+    name: string;
+    sourceLine?: number;  // 0-based snippet line of the marker or loop that opened the region
+    latency: string;
+    throughput: string;
+    iterations?: string;  // How many times llvm-mca simulated the region; latency covers all of them
+    instructions: McaInstruction[];
+    resourcePressure: McaResourcePressure | null;
+    timeline: McaTimeline | null;
+    bottlenecks: McaBottlenecks | null;
+}
+
+// A vector register stored to or loaded back from the stack frame
+export interface McaStackAccess {
+    kind: 'spill' | 'reload';
+    registerClass: string;  // e.g. "ymm", "q", "z", "vs"
+    instruction: string;
+    sourceLine?: number;    // 0-based line within the analyzed snippet
+}
+
+export interface McaSpills {
+    spills: number;
+    reloads: number;
+    byClass: Record<string, { spills: number; reloads: number }>;
+    accesses: McaStackAccess[];
+}
+
+export interface McaResults {
+    latency: string;      // Summed over all regions
+    throughput: string;   // Summed over all regions
+    fullReport: string;
+    assembly: string;
+    cpuTarget: string;
+    compiler: string;     // Version line of the compiler that produced the assembly
+    compileCommand: string;
+    mcaCommand: string;
+    instructions: McaInstruction[];  // Every region's instructions, in region order
+    regions: McaRegion[];
+    warnings: string[];   // e.g. llvm-mca falling back to a generic scheduling model
+    inheritedFlags?: InheritedFlags;
+    spills?: McaSpills;   // Over the whole compiled snippet, not only the analyzed regions
+}
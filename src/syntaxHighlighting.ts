@@ -15,13 +15,14 @@
 */
 import * as vscode from 'vscode';
 import * as fs from 'fs';
-import { fetchDatatypeTooltip, fetchTooltip } from './api/tooltipFetcher';
+import { fetchTooltip } from './api/tooltipFetcher';
 import { getIntrinsics } from './intrinsicsCache';
 import { fetchDatatypesByArch } from './api/datatypeFetcher';
 import { HighlightConfig } from './highlightConfig';
 
 
 let intrinsics: string[] = [];
+let intrinsicSet = new Set<string>();
 let decorationType: vscode.TextEditorDecorationType | null = null;
 let datatypesByArch: Record<string, string[]> = {};
 const datatypeDecorationsByArch: Record<string, vscode.TextEditorDecorationType> = {};
@@ -34,6 +35,7 @@ let statusBarItem: vscode.StatusBarItem | null = null;
 export async function initIntrinsicHighlighting(context: vscode.ExtensionContext) {
   try {
     intrinsics = await getIntrinsics();
+    intrinsicSet = new Set(intrinsics);
   } catch (error) {
     console.error('Failed to fetch intrinsics:', error);
   }
@@ -57,6 +59,11 @@ export async function initIntrinsicHighlighting(context: vscode.ExtensionContext
   // Create decorations
   createDecorations();
 
+  // Docs are fetched when a highlighted intrinsic is hovered, not when it is highlighted
+  context.subscriptions.push(
+    vscode.languages.registerHoverProvider([{ scheme: 'file' }, { scheme: 'untitled' }], { provideHover: provideIntrinsicHover })
+  );
+
   const highlightAllVisibleEditors = () => {
     vscode.window.visibleTextEditors.forEach(editor => highlightIntrinsicsAndDatatypes(editor));
   };
@@ -74,6 +81,25 @@ export async function initIntrinsicHighlighting(context: vscode.ExtensionContext
   highlightAllVisibleEditors();
 }
 
+// Fetch the intrinsics and datatypes again, e.g. for a new token, and re-highlight
+export async function reloadIntrinsicHighlighting() {
+  try {
+    intrinsics = await getIntrinsics();
+    intrinsicSet = new Set(intrinsics);
+  } catch (error) {
+    console.error('Failed to fetch intrinsics:', error);
+  }
+
+  try {
+    datatypesByArch = await fetchDatatypesByArch();
+  } catch (error) {
+    console.error('Failed to fetch datatypes:', error);
+  }
+
+  createDecorations();
+  vscode.window.visibleTextEditors.forEach(editor => highlightIntrinsicsAndDatatypes(editor));
+}
+
 function updateStatusBar() {
   if (!statusBarItem) {return;}
 
@@ -120,7 +146,7 @@ function createDecorations() {
   }
 
   if (currentMode === 'none') {
-    // Create invisible decoration type for hover messages
+    // Nothing to show; hovers come from the hover provider
     decorationType = vscode.window.createTextEditorDecorationType({
       // No visible styling at all
       backgroundColor: 'transparent',
@@ -128,7 +154,7 @@ function createDecorations() {
       textDecoration: 'none;'
     });
 
-    // Skip datatypes color, but keep tooltip links working
+    // Skip datatypes color
     return;
   }
 
@@ -180,7 +206,18 @@ function updateDecorations() {
   createDecorations();
 }
 
-export async function highlightIntrinsicsAndDatatypes(editor: vscode.TextEditor) {
+async function provideIntrinsicHover(document: vscode.TextDocument, position: vscode.Position): Promise<vscode.Hover | undefined> {
+  const range = document.getWordRangeAtPosition(position, /[A-Za-z_][A-Za-z0-9_]*/);
+  if (!range) {return undefined;}
+
+  const word = document.getText(range);
+  if (!intrinsicSet.has(word)) {return undefined;}
+
+  const tooltip = await fetchTooltip(word);
+  return new vscode.Hover(tooltip || new vscode.MarkdownString('*Documentation not available.*'), range);
+}
+
+export function highlightIntrinsicsAndDatatypes(editor: vscode.TextEditor) {
   if ((!intrinsics.length && !Object.keys(datatypesByArch).length) || !decorationType) {return;}
 
   const text = editor.document.getText();
@@ -191,20 +228,14 @@ export async function highlightIntrinsicsAndDatatypes(editor: vscode.TextEditor)
   const intrinsicRegex = new RegExp(`\\b(${intrinsics.map(escape).join('|')})\\b`, 'g');
   let match: RegExpExecArray | null;
 
-  const promises: Promise<void>[] = [];
   while ((match = intrinsicRegex.exec(text)) !== null) {
     const word = match[0];
-    const range = new vscode.Range(
-      editor.document.positionAt(match.index),
-      editor.document.positionAt(match.index + word.length)
-    );
-    const promise = fetchTooltip(word).then(tooltip => {
-      intrinsicDecorations.push({
-        range,
-        hoverMessage: tooltip ||  new vscode.MarkdownString('*Documentation not available.*')
-      });
+    intrinsicDecorations.push({
+      range: new vscode.Range(
+        editor.document.positionAt(match.index),
+        editor.document.positionAt(match.index + word.length)
+      )
     });
-    promises.push(promise);
   }
 
   // === Datatypes per arch ===
@@ -216,24 +247,15 @@ export async function highlightIntrinsicsAndDatatypes(editor: vscode.TextEditor)
 
     while ((match = regex.exec(text)) !== null) {
       const word = match[0];
-      const range = new vscode.Range(
-        editor.document.positionAt(match.index),
-        editor.document.positionAt(match.index + word.length)
-      );
-
-      const promise = fetchDatatypeTooltip(word).then(tooltip => {
-        datatypeDecorationRanges[arch].push({
-          range,
-          // hoverMessage: new vscode.MarkdownString(tooltip || '*Documentation not available.*')
-        });
+      datatypeDecorationRanges[arch].push({
+        range: new vscode.Range(
+          editor.document.positionAt(match.index),
+          editor.document.positionAt(match.index + word.length)
+        )
       });
-
-      promises.push(promise);
     }
   }
 
-  await Promise.all(promises);
-
   editor.setDecorations(decorationType, intrinsicDecorations);
 
   for (const [arch, decos] of Object.entries(datatypeDecorationRanges)) {
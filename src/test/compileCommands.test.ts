@@ -0,0 +1,61 @@
+/*
+* Copyright (c) 2025, VectorCamp PC
+*
+* Licensed under the Apache License, Version 2.0 (the "License");
+* you may not use this file except in compliance with the License.
+* You may obtain a copy of the License at
+*
+*    http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing, software
+* distributed under the License is distributed on an "AS IS" BASIS,
+* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+* See the License for the specific language governing permissions and
+* limitations under the License.
+*/
+import * as assert from 'assert';
+import * as path from 'path';
+import { extractFlags, splitCommandLine } from '../mca/compileCommands';
+
+// A "command" entry as CMake writes it, after JSON decoding
+const CMAKE_COMMAND = '/usr/bin/c++ -DNDEBUG -DVERSION=\\"1.2\\" -I/work/proj/include -Ithird_party ' +
+	'-isystem "/opt/simd lib/include" -O3 -march=native -mavx2 -mfma -std=gnu++17 ' +
+	'-mllvm -x86-use-vzeroupper=false -o CMakeFiles/kernels.dir/src/add.cpp.o -c /work/proj/src/add.cpp';
+
+const DIRECTORY = path.resolve('/work/proj/build');
+
+suite('Compile Commands Test Suite', () => {
+	test('Splits on whitespace and honours quotes and escapes', () => {
+		assert.deepStrictEqual(splitCommandLine(CMAKE_COMMAND), [
+			'/usr/bin/c++', '-DNDEBUG', '-DVERSION="1.2"', '-I/work/proj/include', '-Ithird_party',
+			'-isystem', '/opt/simd lib/include', '-O3', '-march=native', '-mavx2', '-mfma', '-std=gnu++17',
+			'-mllvm', '-x86-use-vzeroupper=false', '-o', 'CMakeFiles/kernels.dir/src/add.cpp.o', '-c', '/work/proj/src/add.cpp'
+		]);
+	});
+
+	test('Single quotes keep backslashes and empty quotes are an argument', () => {
+		assert.deepStrictEqual(splitCommandLine(`cc '-DPATH="a\\b"' "" -c  x.c `), ['cc', '-DPATH="a\\b"', '', '-c', 'x.c']);
+		assert.deepStrictEqual(splitCommandLine('cc "-DMSG=\\"hi there\\"" x\\ y.c'), ['cc', '-DMSG="hi there"', 'x y.c']);
+	});
+
+	test('Keeps include paths, macros, C++ standards and target features', () => {
+		assert.deepStrictEqual(extractFlags(splitCommandLine(CMAKE_COMMAND), DIRECTORY, true), [
+			'-DNDEBUG', '-DVERSION="1.2"',
+			`-I${path.resolve('/work/proj/include')}`, `-I${path.join(DIRECTORY, 'third_party')}`,
+			'-isystem', path.resolve('/opt/simd lib/include'),
+			'-mavx2', '-mfma', '-std=gnu++17'
+		]);
+	});
+
+	test('Drops target features when cross compiling', () => {
+		const flags = extractFlags(splitCommandLine(CMAKE_COMMAND), DIRECTORY, false);
+		assert.ok(!flags.some(f => f.startsWith('-m')));
+	});
+
+	test('Joins separated values and drops C standards', () => {
+		const args = ['gcc', '-D', 'N=4', '-U', 'NDEBUG', '-I', 'inc', '-std=c11', '-m32', '-mtune=generic', '-mfpu=neon', '-c', 'x.c'];
+		assert.deepStrictEqual(extractFlags(args, DIRECTORY, true), [
+			'-DN=4', '-UNDEBUG', `-I${path.join(DIRECTORY, 'inc')}`, '-mfpu=neon'
+		]);
+	});
+});
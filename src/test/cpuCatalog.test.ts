@@ -0,0 +1,51 @@
+/*
+* Copyright (c) 2025, VectorCamp PC
+*
+* Licensed under the Apache License, Version 2.0 (the "License");
+* you may not use this file except in compliance with the License.
+* You may obtain a copy of the License at
+*
+*    http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing, software
+* distributed under the License is distributed on an "AS IS" BASIS,
+* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+* See the License for the specific language governing permissions and
+* limitations under the License.
+*/
+import * as assert from 'assert';
+import { parseCpuHelp } from '../mca/cpuCatalog';
+
+// llvm-mca 14 `-mtriple=aarch64 -mcpu=help /dev/null`, both lists cut short
+const AARCH64_HELP = `Available CPUs for this target:
+
+  a64fx           - Select the a64fx processor.
+  ampere1         - Select the ampere1 processor.
+  apple-a10       - Select the apple-a10 processor.
+  apple-a11       - Select the apple-a11 processor.
+  thunderxt83     - Select the thunderxt83 processor.
+  thunderxt88     - Select the thunderxt88 processor.
+  tsv110          - Select the tsv110 processor.
+
+Available features for this target:
+
+  CONTEXTIDREL2                      - Enable RW operand CONTEXTIDR_EL2.
+  a35                                - Cortex-A35 ARM processors.
+  a510                               - Cortex-A510 ARM processors.
+
+Use +feature to enable a feature, or -feature to disable it.
+For example, llc -mcpu=mycpu -mattr=+feature1,-feature2
+`;
+
+suite('CPU Catalog Test Suite', () => {
+	test('Lists the CPUs and stops at the features', () => {
+		assert.deepStrictEqual(parseCpuHelp(AARCH64_HELP), [
+			'a64fx', 'ampere1', 'apple-a10', 'apple-a11', 'thunderxt83', 'thunderxt88', 'tsv110'
+		]);
+	});
+
+	test('No CPUs for a target llvm-mca was not built with', () => {
+		const output = "llvm-mca: : error: unable to get target for 'loongarch64', see --version and --triple.\n";
+		assert.deepStrictEqual(parseCpuHelp(output), []);
+	});
+});
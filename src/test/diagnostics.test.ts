@@ -0,0 +1,109 @@
+/*
+* Copyright (c) 2025, VectorCamp PC
+*
+* Licensed under the Apache License, Version 2.0 (the "License");
+* you may not use this file except in compliance with the License.
+* You may obtain a copy of the License at
+*
+*    http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing, software
+* distributed under the License is distributed on an "AS IS" BASIS,
+* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+* See the License for the specific language governing permissions and
+* limitations under the License.
+*/
+
+import * as assert from 'assert';
+import { parseClangDiagnostics } from '../mca/diagnostics';
+
+// gcc 12 `-O2 -c -fdiagnostics-parseable-fixits -fno-diagnostics-show-caret`
+// for a snippet after a two-line prelude of #includes:
+//
+//     void scale(float *a, size_t n) {
+//         __m256 factor = _mm256_set1_ps(2.0f);
+//         for (size_t i = 0; i < n; i += 8) {
+//             __m256 v = _mm256_loadu_ps(a + i);
+//             _mm256_storeu_ps(a + i, _mm256_mul_ps(v, facter));
+//         }
+//         printf("%zu\n", n);
+//     }
+const GCC_STDERR = `snippet.c: In function 'scale':
+snippet.c:7:50: error: 'facter' undeclared (first use in this function); did you mean 'factor'?
+fix-it:"snippet.c":{7:50-7:56}:"factor"
+snippet.c:7:50: note: each undeclared identifier is reported only once for each function it appears in
+snippet.c:9:5: warning: implicit declaration of function 'printf' [-Wimplicit-function-declaration]
+snippet.c:9:5: note: include '<stdio.h>' or provide a declaration of 'printf'
+fix-it:"snippet.c":{3:1-3:1}:"#include <stdio.h>\\n"
+snippet.c:9:5: warning: incompatible implicit declaration of built-in function 'printf' [-Wbuiltin-declaration-mismatch]
+snippet.c:9:5: note: include '<stdio.h>' or provide a declaration of 'printf'
+snippet.c:4:12: warning: AVX vector return without AVX enabled changes the ABI [-Wpsabi]
+`;
+
+// An intrinsic used without its -m flag fails inside the header
+const HEADER_STDERR = `In file included from /usr/lib/gcc/x86_64-linux-gnu/12/include/immintrin.h:43,
+                 from snippet.c:1:
+/usr/lib/gcc/x86_64-linux-gnu/12/include/avxintrin.h: In function 'twice':
+/usr/lib/gcc/x86_64-linux-gnu/12/include/avxintrin.h:147:1: error: inlining failed in call to 'always_inline' '_mm256_add_ps': target specific option mismatch
+snippet.c:2:33: note: called from here
+`;
+
+suite('Diagnostics Test Suite', () => {
+	test('Positions are 0-based within the snippet', () => {
+		const diagnostics = parseClangDiagnostics(GCC_STDERR, 'snippet.c', 2);
+		assert.deepStrictEqual(diagnostics.map(d => [d.severity, d.position.line, d.position.character]), [
+			['error', 4, 49],
+			['warning', 6, 4],
+			['warning', 6, 4],
+			['warning', 1, 11]
+		]);
+		assert.strictEqual(diagnostics[0].message, "'facter' undeclared (first use in this function); did you mean 'factor'?");
+	});
+
+	test('Fix-it ranges and replacements', () => {
+		const diagnostics = parseClangDiagnostics(GCC_STDERR, 'snippet.c', 2);
+		assert.deepStrictEqual(diagnostics[0].fixIts, [
+			{ start: { line: 4, character: 49 }, end: { line: 4, character: 55 }, replacement: 'factor' }
+		]);
+		// Inserted in front of the first snippet line, with the newline unescaped
+		assert.deepStrictEqual(diagnostics[1].fixIts, [
+			{ start: { line: 0, character: 0 }, end: { line: 0, character: 0 }, replacement: '#include <stdio.h>\n' }
+		]);
+		assert.deepStrictEqual(diagnostics[2].fixIts, []);
+	});
+
+	test('Notes attach to the diagnostic before them', () => {
+		const diagnostics = parseClangDiagnostics(GCC_STDERR, 'snippet.c', 2);
+		assert.deepStrictEqual(diagnostics[0].notes.map(n => n.message), [
+			'each undeclared identifier is reported only once for each function it appears in'
+		]);
+		assert.deepStrictEqual(diagnostics[1].notes.map(n => n.position), [{ line: 6, character: 4 }]);
+	});
+
+	test('Errors inside headers are reported on the first snippet line', () => {
+		const diagnostics = parseClangDiagnostics(HEADER_STDERR, 'snippet.c', 1);
+		assert.strictEqual(diagnostics.length, 1);
+		assert.strictEqual(diagnostics[0].severity, 'error');
+		assert.deepStrictEqual(diagnostics[0].position, { line: 0, character: 0 });
+		assert.strictEqual(
+			diagnostics[0].message,
+			"avxintrin.h:147: inlining failed in call to 'always_inline' '_mm256_add_ps': target specific option mismatch"
+		);
+		assert.deepStrictEqual(diagnostics[0].notes.map(n => [n.message, n.position]), [
+			['called from here', { line: 0, character: 32 }]
+		]);
+	});
+
+	test('Prelude lines get negative positions', () => {
+		const diagnostics = parseClangDiagnostics(GCC_STDERR, 'snippet.c', 4);
+		assert.deepStrictEqual(diagnostics[3].position, { line: -1, character: 11 });
+	});
+
+	test('Keeps only the errors of other files, without their fix-its', () => {
+		const diagnostics = parseClangDiagnostics(GCC_STDERR, 'other.c', 2);
+		assert.deepStrictEqual(diagnostics.map(d => [d.message, d.position, d.fixIts]), [
+			["snippet.c:7: 'facter' undeclared (first use in this function); did you mean 'factor'?", { line: 0, character: 0 }, []]
+		]);
+		assert.deepStrictEqual(parseClangDiagnostics('', 'snippet.c', 2), []);
+	});
+});
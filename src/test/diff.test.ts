@@ -0,0 +1,77 @@
+/*
+* Copyright (c) 2025, VectorCamp PC
+*
+* Licensed under the Apache License, Version 2.0 (the "License");
+* you may not use this file except in compliance with the License.
+* You may obtain a copy of the License at
+*
+*    http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing, software
+* distributed under the License is distributed on an "AS IS" BASIS,
+* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+* See the License for the specific language governing permissions and
+* limitations under the License.
+*/
+import * as assert from 'assert';
+import { diffInstructions } from '../mca/diff';
+import { McaInstruction } from '../mca/types';
+
+// One instruction per line, as llvm-mca prints them in "Instruction Info"
+function instructions(text: string): McaInstruction[] {
+	return text.trim().split('\n').map((instruction, order) => ({
+		order,
+		uops: '1',
+		latency: '4',
+		throughput: '0.50',
+		instruction: instruction.trim()
+	}));
+}
+
+// A multiply and add before and after they were fused into an FMA
+const BEFORE = instructions(`
+	vmovups	(%rdi,%rax), %ymm1
+	vmulps	%ymm0, %ymm1, %ymm1
+	vaddps	(%rsi,%rax), %ymm1, %ymm1
+	vmovups	%ymm1, (%rdi,%rax)
+	addq	$32, %rax
+`);
+
+const AFTER = instructions(`
+	vmovups	(%rdi,%rax), %ymm1
+	vfmadd213ps	(%rsi,%rax), %ymm0, %ymm1
+	vmovups	%ymm1, (%rdi,%rax)
+	addq	$32, %rax
+`);
+
+suite('Diff Test Suite', () => {
+	test('Marks removed and added instructions around the common ones', () => {
+		const diff = diffInstructions(BEFORE, AFTER);
+		assert.deepStrictEqual(diff.map(l => `${l.op} ${l.instruction}`), [
+			'  vmovups (%rdi,%rax), %ymm1',
+			'- vmulps %ymm0, %ymm1, %ymm1',
+			'- vaddps (%rsi,%rax), %ymm1, %ymm1',
+			'+ vfmadd213ps (%rsi,%rax), %ymm0, %ymm1',
+			'  vmovups %ymm1, (%rdi,%rax)',
+			'  addq $32, %rax'
+		]);
+	});
+
+	test('Keeps both runs\' rows for unchanged instructions', () => {
+		const diff = diffInstructions(BEFORE, AFTER);
+		assert.strictEqual(diff[4].before, BEFORE[3]);
+		assert.strictEqual(diff[4].after, AFTER[2]);
+		assert.strictEqual(diff[1].after, undefined);
+		assert.strictEqual(diff[3].before, undefined);
+	});
+
+	test('Ignores whitespace differences', () => {
+		const spaced = instructions('vmulps   %ymm0,  %ymm1, %ymm1');
+		assert.deepStrictEqual(diffInstructions(BEFORE.slice(1, 2), spaced).map(l => l.op), [' ']);
+	});
+
+	test('Diffs against an empty run', () => {
+		assert.deepStrictEqual(diffInstructions([], AFTER).map(l => l.op), ['+', '+', '+', '+']);
+		assert.deepStrictEqual(diffInstructions(AFTER, []).map(l => l.op), ['-', '-', '-', '-']);
+	});
+});
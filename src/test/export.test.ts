@@ -0,0 +1,125 @@
+/*
+* Copyright (c) 2025, VectorCamp PC
+*
+* Licensed under the Apache License, Version 2.0 (the "License");
+* you may not use this file except in compliance with the License.
+* You may obtain a copy of the License at
+*
+*    http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing, software
+* distributed under the License is distributed on an "AS IS" BASIS,
+* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+* See the License for the specific language governing permissions and
+* limitations under the License.
+*/
+import * as assert from 'assert';
+import { formatMcaRun } from '../mca/export';
+import { McaHistoryEntry } from '../mca/history';
+import { McaInstruction } from '../mca/types';
+
+const INSTRUCTIONS: McaInstruction[] = [
+	{ order: 0, uops: '1', latency: '4', throughput: '0.50', instruction: 'vmulps\t%ymm0, %ymm1, %ymm1', sourceLine: 1 },
+	{ order: 1, uops: '2', latency: '1', throughput: '1.00', instruction: 'vmovups\t%ymm1, (%rdi)' }
+];
+
+// A compile command with quotes and a compiler version spanning two lines
+const ENTRY: McaHistoryEntry = {
+	id: '1',
+	timestamp: 0,
+	documentUri: 'file:///work/kernel.c',
+	baseLine: 10,
+	description: 'function scale',
+	cpuKey: 'x86_64:skylake',
+	cpuLabel: 'skylake',
+	code: 'void scale(float *a) {\n    a[0] *= 2;\n}',
+	toolchain: {
+		compiler: 'clang',
+		compilerPath: 'clang',
+		gccPath: 'gcc',
+		llvmMcaPath: 'llvm-mca',
+		optimizationLevel: '-O2',
+		extraCompilerFlags: [],
+		extraMcaFlags: [],
+		regionMode: 'markers',
+		timeoutSeconds: 30
+	},
+	results: {
+		latency: '107',
+		throughput: '1.00',
+		fullReport: '',
+		assembly: '',
+		cpuTarget: 'skylake',
+		compiler: 'clang version 17.0.6\nTarget: x86_64-pc-linux-gnu',
+		compileCommand: `clang -O2 '-DNAME="scale"' -S -o - kernel.c`,
+		mcaCommand: 'llvm-mca -mcpu=skylake',
+		instructions: INSTRUCTIONS,
+		regions: [{
+			name: 'loop',
+			sourceLine: 0,
+			latency: '107',
+			throughput: '1.00',
+			instructions: INSTRUCTIONS,
+			resourcePressure: null,
+			timeline: null,
+			bottlenecks: null
+		}],
+		warnings: []
+	}
+};
+
+// Split a CSV document into records and fields, honouring quoted fields
+function parseCsv(text: string): string[][] {
+	const records: string[][] = [];
+	let fields: string[] = [];
+	let field = '';
+	let quoted = false;
+	for (let i = 0; i < text.length; i++) {
+		const c = text[i];
+		if (quoted) {
+			if (c === '"' && text[i + 1] === '"') {
+				field += '"';
+				i++;
+			} else if (c === '"') {
+				quoted = false;
+			} else {
+				field += c;
+			}
+		} else if (c === '"') {
+			quoted = true;
+		} else if (c === ',') {
+			fields.push(field);
+			field = '';
+		} else if (c === '\n') {
+			fields.push(field);
+			records.push(fields);
+			fields = [];
+			field = '';
+		} else {
+			field += c;
+		}
+	}
+	return records;
+}
+
+suite('Export Test Suite', () => {
+	test('CSV has one row per instruction under the header', () => {
+		const records = parseCsv(formatMcaRun(ENTRY, 'csv'));
+		assert.strictEqual(records.length, 3);
+		assert.ok(records.every(r => r.length === records[0].length));
+		assert.deepStrictEqual(records[1].slice(0, 9), ['loop', '0', '12', '1', '4', '0.50', 'vmulps\t%ymm0, %ymm1, %ymm1', '107', '1.00']);
+		assert.strictEqual(records[2][2], '');
+	});
+
+	test('CSV quotes fields with commas, quotes and newlines', () => {
+		const csv = formatMcaRun(ENTRY, 'csv');
+		const row = csv.split('\n')[1];
+		assert.ok(row.startsWith('loop,0,12,1,4,0.50,"vmulps\t%ymm0, %ymm1, %ymm1",107,1.00,skylake,"clang version 17.0.6'));
+		assert.ok(csv.includes(`,"clang -O2 '-DNAME=""scale""' -S -o - kernel.c",`));
+
+		const record = parseCsv(csv)[1];
+		assert.strictEqual(record[10], 'clang version 17.0.6\nTarget: x86_64-pc-linux-gnu');
+		assert.strictEqual(record[11], ENTRY.results.compileCommand);
+		assert.strictEqual(record[12], 'llvm-mca -mcpu=skylake');
+	});
+});
@@ -0,0 +1,129 @@
+/*
+* Copyright (c) 2025, VectorCamp PC
+*
+* Licensed under the Apache License, Version 2.0 (the "License");
+* you may not use this file except in compliance with the License.
+* You may obtain a copy of the License at
+*
+*    http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing, software
+* distributed under the License is distributed on an "AS IS" BASIS,
+* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+* See the License for the specific language governing permissions and
+* limitations under the License.
+*/
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { cachedFetch, flushOfflineCache, initOfflineCache } from '../api/offlineCache';
+
+const SOURCE = 'https://api.simd.info';
+const TOKEN = 'token-a';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Counts calls and resolves to the next value, or to null once they run out
+function fetcher(...values: Array<string | null>) {
+	const fetch = async () => {
+		fetch.calls++;
+		return values.shift() ?? null;
+	};
+	fetch.calls = 0;
+	return fetch;
+}
+
+suite('Offline Cache Test Suite', () => {
+	let storageDir: string;
+
+	// A fresh cache backed by an empty storage directory, or by `storageDir` as it is
+	const init = () => initOfflineCache({
+		globalStorageUri: { fsPath: storageDir },
+		subscriptions: []
+	} as unknown as vscode.ExtensionContext);
+
+	// Age every stored entry past the default one-week TTL, then reload from disk
+	const expireEntries = () => {
+		flushOfflineCache();
+		const file = path.join(storageDir, 'offline-cache', 'tooltips.json');
+		const cache = JSON.parse(fs.readFileSync(file, 'utf-8'));
+		for (const entry of Object.values<{ fetchedAt: number }>(cache.entries)) {
+			entry.fetchedAt -= 8 * DAY_MS;
+		}
+		fs.writeFileSync(file, JSON.stringify(cache));
+		init();
+	};
+
+	setup(() => {
+		storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'simd-cache-'));
+		init();
+	});
+
+	teardown(() => {
+		flushOfflineCache();
+		fs.rmSync(storageDir, { recursive: true, force: true });
+	});
+
+	test('A missing entry waits for the fetch, then comes from the cache', async () => {
+		const fetch = fetcher('v1');
+		assert.strictEqual(await cachedFetch('tooltips', '_mm_add_ps', SOURCE, TOKEN, fetch), 'v1');
+		assert.strictEqual(await cachedFetch('tooltips', '_mm_add_ps', SOURCE, TOKEN, fetch), 'v1');
+		assert.strictEqual(fetch.calls, 1);
+	});
+
+	test('Entries survive a reload from disk', async () => {
+		await cachedFetch('tooltips', '_mm_add_ps', SOURCE, TOKEN, fetcher('v1'));
+		flushOfflineCache();
+		init();
+		const fetch = fetcher('v2');
+		assert.strictEqual(await cachedFetch('tooltips', '_mm_add_ps', SOURCE, TOKEN, fetch), 'v1');
+		assert.strictEqual(fetch.calls, 0);
+	});
+
+	test('A stale entry is returned at once and refreshed in the background', async () => {
+		await cachedFetch('tooltips', '_mm_add_ps', SOURCE, TOKEN, fetcher('v1'));
+		expireEntries();
+
+		const fetch = fetcher('v2');
+		assert.strictEqual(await cachedFetch('tooltips', '_mm_add_ps', SOURCE, TOKEN, fetch), 'v1');
+		assert.strictEqual(fetch.calls, 1);
+		await new Promise(resolve => setImmediate(resolve));  // Let the refresh land
+		assert.strictEqual(await cachedFetch('tooltips', '_mm_add_ps', SOURCE, TOKEN, fetch), 'v2');
+		assert.strictEqual(fetch.calls, 1);
+	});
+
+	test('waitForRefresh returns the refetched entry', async () => {
+		await cachedFetch('tooltips', '_mm_add_ps', SOURCE, TOKEN, fetcher('v1'));
+		expireEntries();
+		assert.strictEqual(await cachedFetch('tooltips', '_mm_add_ps', SOURCE, TOKEN, fetcher('v2'), { waitForRefresh: true }), 'v2');
+	});
+
+	test('A failed refresh keeps the stale entry', async () => {
+		await cachedFetch('tooltips', '_mm_add_ps', SOURCE, TOKEN, fetcher('v1'));
+		expireEntries();
+		assert.strictEqual(await cachedFetch('tooltips', '_mm_add_ps', SOURCE, TOKEN, fetcher(null), { waitForRefresh: true }), 'v1');
+		assert.strictEqual(await cachedFetch('tooltips', '_mm_add_ps', SOURCE, TOKEN, fetcher(), { force: true }), 'v1');
+	});
+
+	test('force refetches a fresh entry', async () => {
+		await cachedFetch('tooltips', '_mm_add_ps', SOURCE, TOKEN, fetcher('v1'));
+		assert.strictEqual(await cachedFetch('tooltips', '_mm_add_ps', SOURCE, TOKEN, fetcher('v2'), { force: true }), 'v2');
+	});
+
+	test('Concurrent misses share one fetch', async () => {
+		const fetch = fetcher('v1', 'v2');
+		const results = await Promise.all([
+			cachedFetch('tooltips', '_mm_add_ps', SOURCE, TOKEN, fetch),
+			cachedFetch('tooltips', '_mm_add_ps', SOURCE, TOKEN, fetch)
+		]);
+		assert.deepStrictEqual(results, ['v1', 'v1']);
+		assert.strictEqual(fetch.calls, 1);
+	});
+
+	test('Nothing carries over to another token or API', async () => {
+		await cachedFetch('tooltips', '_mm_add_ps', SOURCE, TOKEN, fetcher('v1'));
+		assert.strictEqual(await cachedFetch('tooltips', '_mm_add_ps', SOURCE, 'token-b', fetcher('v2')), 'v2');
+		assert.strictEqual(await cachedFetch('tooltips', '_mm_add_ps', 'http://localhost:8000', 'token-b', fetcher('v3')), 'v3');
+	});
+});
@@ -0,0 +1,52 @@
+/*
+* Copyright (c) 2025, VectorCamp PC
+*
+* Licensed under the Apache License, Version 2.0 (the "License");
+* you may not use this file except in compliance with the License.
+* You may obtain a copy of the License at
+*
+*    http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing, software
+* distributed under the License is distributed on an "AS IS" BASIS,
+* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+* See the License for the specific language governing permissions and
+* limitations under the License.
+*/
+
+import * as assert from 'assert';
+import { instrumentRegions, toOriginalPosition, uniqueRegionNames } from '../mca/regions';
+
+const CODE = `int sum(int *a, int n) {
+    int s = 0;
+    for (int i = 0; i < n; i++) for (int j = 0; j < n; j++) { s += a[j]; } return s + missing;
+}`;
+
+suite('Region Markers Test Suite', () => {
+	test('Wraps the innermost loop in braces on the same line', () => {
+		const { code, regions } = instrumentRegions(CODE, 'auto', '#');
+		assert.deepStrictEqual(regions, [{ name: 'loop_L3', sourceLine: 2 }]);
+		assert.strictEqual(code.split('\n').length, CODE.split('\n').length);
+		assert.ok(code.includes('for (int i = 0; i < n; i++) { __asm__ volatile("# LLVM-MCA-BEGIN loop_L3" ::: "memory"); for (int j'));
+		assert.ok(code.includes('s += a[j]; } __asm__ volatile("# LLVM-MCA-END" ::: "memory"); } return s'));
+	});
+
+	test('Maps columns after the markers back to the snippet', () => {
+		const instrumented = instrumentRegions(CODE, 'auto', '#');
+		const line = instrumented.code.split('\n')[2];
+		const position = { line: 2, character: line.indexOf('missing') };
+		assert.deepStrictEqual(toOriginalPosition(instrumented, position), { line: 2, character: CODE.split('\n')[2].indexOf('missing') });
+
+		// Inside a marker: where it was inserted
+		const inMarker = { line: 2, character: line.indexOf('LLVM-MCA-BEGIN') };
+		assert.deepStrictEqual(toOriginalPosition(instrumented, inMarker), { line: 2, character: CODE.split('\n')[2].indexOf('for (int j') });
+
+		// Other lines are untouched
+		assert.deepStrictEqual(toOriginalPosition(instrumented, { line: 1, character: 8 }), { line: 1, character: 8 });
+	});
+
+	test('Numbers regions the compiler emitted twice', () => {
+		const asm = '\t# LLVM-MCA-BEGIN loop_L3\n\t# LLVM-MCA-END\n\t# LLVM-MCA-BEGIN loop_L3\n\t# LLVM-MCA-END\n';
+		assert.strictEqual(uniqueRegionNames(asm), '\t# LLVM-MCA-BEGIN loop_L3\n\t# LLVM-MCA-END\n\t# LLVM-MCA-BEGIN loop_L3~2\n\t# LLVM-MCA-END\n');
+	});
+});
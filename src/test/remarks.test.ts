@@ -0,0 +1,115 @@
+/*
+* Copyright (c) 2025, VectorCamp PC
+*
+* Licensed under the Apache License, Version 2.0 (the "License");
+* you may not use this file except in compliance with the License.
+* You may obtain a copy of the License at
+*
+*    http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing, software
+* distributed under the License is distributed on an "AS IS" BASIS,
+* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+* See the License for the specific language governing permissions and
+* limitations under the License.
+*/
+import * as assert from 'assert';
+import { parseOptimizationRemarks } from '../mca/remarks';
+
+// gcc 12 `-O3 -mavx2 -fopt-info-vec-optimized-missed` after a two-line prelude
+// of #includes, for
+//
+//     void add(float *a, const float *b, size_t n) {
+//         for (size_t i = 0; i < n; i++)
+//             a[i] += b[i];
+//     }
+//     float sum_chain(const float *a, size_t n) {
+//         float s = 0;
+//         for (size_t i = 0; i < n; i++)
+//             s = s * a[i] + 1.0f;
+//         return s;
+//     }
+//     void prefix(int *a, size_t n) {
+//         for (size_t i = 1; i < n; i++)
+//             a[i] += a[i - 1];
+//     }
+const GCC_REMARKS = `input.cpp:4:26: optimized: loop vectorized using 32 byte vectors
+input.cpp:4:26: optimized:  loop versioned for vectorization because of possible aliasing
+input.cpp:4:26: optimized: loop vectorized using 16 byte vectors
+input.cpp:9:26: missed: couldn't vectorize loop
+input.cpp:10:15: missed: not vectorized: unsupported use in stmt.
+input.cpp:14:26: missed: couldn't vectorize loop
+input.cpp:15:24: missed: not vectorized, possible dependence between data-refs *_5 and *_2
+`;
+
+// The same loops in clang's -Rpass format, with its source and caret lines,
+// plus remarks about a header and the prelude
+const CLANG_REMARKS = `input.cpp:4:5: remark: vectorized loop (vectorization width: 8, interleaved count: 4) [-Rpass=loop-vectorize]
+    4 |     for (size_t i = 0; i < n; i++)
+      |     ^
+input.cpp:10:15: remark: loop not vectorized: cannot prove it is safe to reorder floating-point operations [-Rpass-analysis=loop-vectorize]
+   10 |         s = s * a[i] + 1.0f;
+      |               ^
+input.cpp:9:5: remark: loop not vectorized [-Rpass-missed=loop-vectorize]
+    9 |     for (size_t i = 0; i < n; i++)
+      |     ^
+/usr/lib/llvm-17/lib/clang/17/include/avxintrin.h:3357:3: remark: Stores SLP vectorized with cost -3 and with tree size 2 [-Rpass=slp-vectorizer]
+input.cpp:2:1: remark: loop not vectorized [-Rpass-missed=loop-vectorize]
+`;
+
+suite('Remarks Test Suite', () => {
+	test('Parses GCC remarks, reasons included', () => {
+		const remarks = parseOptimizationRemarks(GCC_REMARKS, 'input.cpp', 2);
+		assert.deepStrictEqual(remarks.map(r => [r.kind, r.pass, r.position.line, r.position.character]), [
+			['passed', 'vect', 1, 25],
+			['passed', 'vect', 1, 25],
+			['passed', 'vect', 1, 25],
+			['missed', 'vect', 6, 25],
+			['analysis', 'vect', 7, 14],
+			['missed', 'vect', 11, 25],
+			['analysis', 'vect', 12, 23]
+		]);
+		assert.strictEqual(remarks[0].message, 'loop vectorized using 32 byte vectors');
+		assert.strictEqual(remarks[6].message, 'not vectorized, possible dependence between data-refs *_5 and *_2');
+	});
+
+	test('Appends GCC continuation lines to the remark', () => {
+		const stderr = 'input.cpp:9:26: missed: couldn\'t vectorize loop\n' +
+			'   not vectorized: unsupported use in stmt.\n' +
+			'input.cpp:14:26: missed: couldn\'t vectorize loop\n';
+		assert.deepStrictEqual(parseOptimizationRemarks(stderr, 'input.cpp', 2).map(r => r.message), [
+			'couldn\'t vectorize loop not vectorized: unsupported use in stmt.',
+			'couldn\'t vectorize loop'
+		]);
+	});
+
+	test('Parses clang remarks and skips source and caret lines', () => {
+		const remarks = parseOptimizationRemarks(CLANG_REMARKS, 'input.cpp', 2);
+		assert.deepStrictEqual(remarks, [
+			{
+				kind: 'passed',
+				pass: 'loop-vectorize',
+				position: { line: 1, character: 4 },
+				message: 'vectorized loop (vectorization width: 8, interleaved count: 4)'
+			},
+			{
+				kind: 'analysis',
+				pass: 'loop-vectorize',
+				position: { line: 7, character: 14 },
+				message: 'loop not vectorized: cannot prove it is safe to reorder floating-point operations'
+			},
+			{
+				kind: 'missed',
+				pass: 'loop-vectorize',
+				position: { line: 6, character: 4 },
+				message: 'loop not vectorized'
+			}
+		]);
+	});
+
+	test('Ignores remarks in headers, the prelude and other files', () => {
+		assert.deepStrictEqual(parseOptimizationRemarks(GCC_REMARKS, 'other.cpp', 2), []);
+		assert.ok(parseOptimizationRemarks(CLANG_REMARKS, 'input.cpp', 2).every(r => r.pass === 'loop-vectorize'));
+		assert.deepStrictEqual(parseOptimizationRemarks(GCC_REMARKS, 'input.cpp', 20), []);
+	});
+});
@@ -0,0 +1,341 @@
+/*
+* Copyright (c) 2025, VectorCamp PC
+*
+* Licensed under the Apache License, Version 2.0 (the "License");
+* you may not use this file except in compliance with the License.
+* You may obtain a copy of the License at
+*
+*    http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing, software
+* distributed under the License is distributed on an "AS IS" BASIS,
+* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+* See the License for the specific language governing permissions and
+* limitations under the License.
+*/
+
+import * as assert from 'assert';
+import { parseBottlenecks, parseRegions, parseResourcePressure, parseTimeline } from '../mca/reportParser';
+
+// llvm-mca 14 `-mcpu=skylake -iterations=2 -timeline -bottleneck-analysis -resource-pressure`
+// for vmulps / vaddps / vmovups
+const SKYLAKE_REPORT = `Iterations:        2
+Instructions:      6
+Total Cycles:      16
+Total uOps:        8
+
+Dispatch Width:    6
+uOps Per Cycle:    0.50
+IPC:               0.38
+Block RThroughput: 1.0
+
+
+No resource or data dependency bottlenecks discovered.
+
+
+Instruction Info:
+[1]: #uOps
+[2]: Latency
+[3]: RThroughput
+[4]: MayLoad
+[5]: MayStore
+[6]: HasSideEffects (U)
+
+[1]    [2]    [3]    [4]    [5]    [6]    Instructions:
+ 1      4     0.50                        vmulps	%ymm0, %ymm1, %ymm1
+ 1      4     0.50                        vaddps	%ymm1, %ymm2, %ymm2
+ 2      1     1.00           *            vmovups	%ymm2, (%rdi)
+
+
+Resources:
+[0]   - SKLDivider
+[1]   - SKLFPDivider
+[2]   - SKLPort0
+[3]   - SKLPort1
+[4]   - SKLPort2
+[5]   - SKLPort3
+[6]   - SKLPort4
+[7]   - SKLPort5
+[8]   - SKLPort6
+[9]   - SKLPort7
+
+
+Resource pressure per iteration:
+[0]    [1]    [2]    [3]    [4]    [5]    [6]    [7]    [8]    [9]    
+ -      -     1.00   1.00    -     0.50   1.00    -      -     0.50   
+
+Resource pressure by instruction:
+[0]    [1]    [2]    [3]    [4]    [5]    [6]    [7]    [8]    [9]    Instructions:
+ -      -      -     1.00    -      -      -      -      -      -     vmulps	%ymm0, %ymm1, %ymm1
+ -      -     1.00    -      -      -      -      -      -      -     vaddps	%ymm1, %ymm2, %ymm2
+ -      -      -      -      -     0.50   1.00    -      -     0.50   vmovups	%ymm2, (%rdi)
+
+
+Timeline view:
+                    012345
+Index     0123456789      
+
+[0,0]     DeeeeER   .    .   vmulps	%ymm0, %ymm1, %ymm1
+[0,1]     D====eeeeER    .   vaddps	%ymm1, %ymm2, %ymm2
+[0,2]     D========eER   .   vmovups	%ymm2, (%rdi)
+[1,0]     D====eeeeE-R   .   vmulps	%ymm0, %ymm1, %ymm1
+[1,1]     D========eeeeER.   vaddps	%ymm1, %ymm2, %ymm2
+[1,2]     .D===========eER   vmovups	%ymm2, (%rdi)
+
+
+Average Wait times (based on the timeline view):
+[0]: Executions
+[1]: Average time spent waiting in a scheduler's queue
+[2]: Average time spent waiting in a scheduler's queue while ready
+[3]: Average time elapsed from WB until retire stage
+
+      [0]    [1]    [2]    [3]
+0.     2     3.0    0.5    0.5       vmulps	%ymm0, %ymm1, %ymm1
+1.     2     7.0    0.0    0.0       vaddps	%ymm1, %ymm2, %ymm2
+2.     2     10.5   0.0    0.0       vmovups	%ymm2, (%rdi)
+       2     6.8    0.2    0.2       <total>
+`;
+
+// llvm-mca 14 `-mcpu=skylake -bottleneck-analysis` for two vpshufb and a vpermd,
+// up to the instruction table
+const PORT_BOUND_REPORT = `Iterations:        100
+Instructions:      300
+Total Cycles:      305
+Total uOps:        300
+
+Dispatch Width:    6
+uOps Per Cycle:    0.98
+IPC:               0.98
+Block RThroughput: 3.0
+
+
+Cycles with backend pressure increase [ 78.36% ]
+Throughput Bottlenecks: 
+  Resource Pressure       [ 78.36% ]
+  - SKLPort5  [ 78.36% ]
+  Data Dependencies:      [ 0.00% ]
+  - Register Dependencies [ 0.00% ]
+  - Memory Dependencies   [ 0.00% ]
+
+Critical sequence based on the simulation:
+
+              Instruction                                 Dependency Information
+ +----< 2.    vpermd	%ymm3, %ymm0, %ymm3
+ |
+ |    < loop carried > 
+ |
+ |      0.    vpshufb	%ymm0, %ymm1, %ymm1
+ |      1.    vpshufb	%ymm0, %ymm2, %ymm2
+ +----> 2.    vpermd	%ymm3, %ymm0, %ymm3               ## REGISTER dependency:  %ymm3
+ |
+ |    < loop carried > 
+ |
+ +----> 0.    vpshufb	%ymm0, %ymm1, %ymm1               ## RESOURCE interference:  SKLPort5 [ probability: 99% ]
+
+
+`;
+
+// The vmulps / vaddps / vmovups chain with the default 100 iterations
+const DEPENDENCY_BOUND_REPORT = `Iterations:        100
+Instructions:      300
+Total Cycles:      408
+Total uOps:        400
+
+Dispatch Width:    6
+uOps Per Cycle:    0.98
+IPC:               0.74
+Block RThroughput: 1.0
+
+
+Cycles with backend pressure increase [ 59.31% ]
+Throughput Bottlenecks: 
+  Resource Pressure       [ 0.00% ]
+  Data Dependencies:      [ 59.31% ]
+  - Register Dependencies [ 59.31% ]
+  - Memory Dependencies   [ 0.00% ]
+
+Critical sequence based on the simulation:
+
+              Instruction                                 Dependency Information
+ +----< 0.    vmulps	%ymm0, %ymm1, %ymm1
+ |
+ |    < loop carried > 
+ |
+ +----> 0.    vmulps	%ymm0, %ymm1, %ymm1               ## REGISTER dependency:  %ymm1
+ +----> 1.    vaddps	%ymm1, %ymm2, %ymm2               ## REGISTER dependency:  %ymm1
+ +----> 2.    vmovups	%ymm2, (%rdi)                     ## REGISTER dependency:  %ymm2
+
+
+`;
+
+// Two regions of one loop, split where its body was interrupted; llvm-mca
+// suffixes the repeated name with ~2
+const REGIONS_REPORT = `
+[0] Code Region - loop_L3
+
+Iterations:        10
+Instructions:      20
+Total Cycles:      47
+Total uOps:        20
+
+Dispatch Width:    6
+uOps Per Cycle:    0.43
+IPC:               0.43
+Block RThroughput: 1.0
+
+
+Instruction Info:
+[1]: #uOps
+[2]: Latency
+[3]: RThroughput
+[4]: MayLoad
+[5]: MayStore
+[6]: HasSideEffects (U)
+
+[1]    [2]    [3]    [4]    [5]    [6]    Instructions:
+ 1      4     0.50                        vmulps	%ymm0, %ymm1, %ymm1
+ 1      4     0.50                        vaddps	%ymm1, %ymm2, %ymm2
+
+
+Resources:
+[0]   - SKLDivider
+[1]   - SKLFPDivider
+[2]   - SKLPort0
+[3]   - SKLPort1
+[4]   - SKLPort2
+[5]   - SKLPort3
+[6]   - SKLPort4
+[7]   - SKLPort5
+[8]   - SKLPort6
+[9]   - SKLPort7
+
+
+Resource pressure per iteration:
+[0]    [1]    [2]    [3]    [4]    [5]    [6]    [7]    [8]    [9]    
+ -      -     1.00   1.00    -      -      -      -      -      -     
+
+Resource pressure by instruction:
+[0]    [1]    [2]    [3]    [4]    [5]    [6]    [7]    [8]    [9]    Instructions:
+ -      -      -     1.00    -      -      -      -      -      -     vmulps	%ymm0, %ymm1, %ymm1
+ -      -     1.00    -      -      -      -      -      -      -     vaddps	%ymm1, %ymm2, %ymm2
+
+[1] Code Region - loop_L3~2
+
+Iterations:        10
+Instructions:      10
+Total Cycles:      13
+Total uOps:        20
+
+Dispatch Width:    6
+uOps Per Cycle:    1.54
+IPC:               0.77
+Block RThroughput: 1.0
+
+
+Instruction Info:
+[1]: #uOps
+[2]: Latency
+[3]: RThroughput
+[4]: MayLoad
+[5]: MayStore
+[6]: HasSideEffects (U)
+
+[1]    [2]    [3]    [4]    [5]    [6]    Instructions:
+ 2      1     1.00           *            vmovups	%ymm2, (%rdi)
+
+
+Resources:
+[0]   - SKLDivider
+[1]   - SKLFPDivider
+[2]   - SKLPort0
+[3]   - SKLPort1
+[4]   - SKLPort2
+[5]   - SKLPort3
+[6]   - SKLPort4
+[7]   - SKLPort5
+[8]   - SKLPort6
+[9]   - SKLPort7
+
+
+Resource pressure per iteration:
+[0]    [1]    [2]    [3]    [4]    [5]    [6]    [7]    [8]    [9]    
+ -      -      -      -     0.30   0.30   1.00    -      -     0.40   
+
+Resource pressure by instruction:
+[0]    [1]    [2]    [3]    [4]    [5]    [6]    [7]    [8]    [9]    Instructions:
+ -      -      -      -     0.30   0.30   1.00    -      -     0.40   vmovups	%ymm2, (%rdi)
+`;
+
+suite('Report Parser Test Suite', () => {
+	test('Parses resource pressure per iteration and per instruction', () => {
+		const pressure = parseResourcePressure(SKYLAKE_REPORT)!;
+		assert.deepStrictEqual(pressure.resources, [
+			'SKLDivider', 'SKLFPDivider', 'SKLPort0', 'SKLPort1', 'SKLPort2',
+			'SKLPort3', 'SKLPort4', 'SKLPort5', 'SKLPort6', 'SKLPort7'
+		]);
+		assert.deepStrictEqual(pressure.perIteration, [0, 0, 1, 1, 0, 0.5, 1, 0, 0, 0.5]);
+		assert.deepStrictEqual(pressure.byInstruction.map(i => i.instruction), [
+			'vmulps\t%ymm0, %ymm1, %ymm1', 'vaddps\t%ymm1, %ymm2, %ymm2', 'vmovups\t%ymm2, (%rdi)'
+		]);
+		assert.deepStrictEqual(pressure.byInstruction[2].pressure, [0, 0, 0, 0, 0, 0.5, 1, 0, 0, 0.5]);
+	});
+
+	test('No resource pressure without the section', () => {
+		assert.strictEqual(parseResourcePressure(PORT_BOUND_REPORT), null);
+	});
+
+	test('Parses the timeline stages column by column', () => {
+		const timeline = parseTimeline(SKYLAKE_REPORT)!;
+		assert.strictEqual(timeline.cycles, 16);
+		assert.strictEqual(timeline.entries.length, 6);
+		assert.deepStrictEqual(timeline.entries[0], {
+			iteration: 0, index: 0, stages: 'DeeeeER   .    .', instruction: 'vmulps\t%ymm0, %ymm1, %ymm1'
+		});
+		assert.deepStrictEqual(timeline.entries[5], {
+			iteration: 1, index: 2, stages: '.D===========eER', instruction: 'vmovups\t%ymm2, (%rdi)'
+		});
+	});
+
+	test('Reports when llvm-mca found no bottleneck', () => {
+		const bottlenecks = parseBottlenecks(SKYLAKE_REPORT)!;
+		assert.strictEqual(bottlenecks.found, false);
+	});
+
+	test('Names the saturated port of a resource bottleneck', () => {
+		const bottlenecks = parseBottlenecks(PORT_BOUND_REPORT)!;
+		assert.strictEqual(bottlenecks.backendPressure, 78.36);
+		assert.strictEqual(bottlenecks.resourcePressure, 78.36);
+		assert.strictEqual(bottlenecks.dataDependencies, 0);
+		assert.deepStrictEqual(bottlenecks.resources, [{ name: 'SKLPort5', percent: 78.36 }]);
+		assert.strictEqual(bottlenecks.summary, 'Resource pressure on SKLPort5 increases backend pressure in 78.36% of cycles.');
+	});
+
+	test('Names the register of a dependency chain', () => {
+		const bottlenecks = parseBottlenecks(DEPENDENCY_BOUND_REPORT)!;
+		assert.strictEqual(bottlenecks.registerDependencies, 59.31);
+		assert.deepStrictEqual(bottlenecks.resources, []);
+		assert.ok(bottlenecks.criticalSequence.some(line => line.includes('## REGISTER dependency:  %ymm1')));
+		assert.strictEqual(bottlenecks.summary, 'A register dependency chain through %ymm1 increases backend pressure in 59.31% of cycles.');
+	});
+
+	test('Splits regions and places a repeated region at its marker', () => {
+		const sourceMaps = new Map<string, Array<number | undefined>>([
+			['', []], ['loop_L3', [3, 4]], ['loop_L3~2', [5]]
+		]);
+		const regions = parseRegions(REGIONS_REPORT, sourceMaps, [{ name: 'loop_L3', sourceLine: 2 }]);
+		assert.deepStrictEqual(regions.map(r => [r.name, r.sourceLine, r.latency, r.iterations]), [
+			['loop_L3', 2, '47', '10'],
+			['loop_L3~2', 2, '13', '10']
+		]);
+		assert.deepStrictEqual(regions[0].instructions.map(i => i.sourceLine), [3, 4]);
+		assert.deepStrictEqual(regions[1].instructions.map(i => [i.instruction, i.sourceLine]), [['vmovups\t%ymm2, (%rdi)', 5]]);
+		assert.deepStrictEqual(regions[1].resourcePressure!.perIteration, [0, 0, 0, 0, 0.3, 0.3, 1, 0, 0, 0.4]);
+	});
+
+	test('Treats a report without region headers as one anonymous region', () => {
+		const regions = parseRegions(SKYLAKE_REPORT, new Map([['', [0, 1, 2]]]), []);
+		assert.strictEqual(regions.length, 1);
+		assert.strictEqual(regions[0].name, '');
+		assert.deepStrictEqual(regions[0].instructions.map(i => i.sourceLine), [0, 1, 2]);
+	});
+});
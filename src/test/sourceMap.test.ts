@@ -0,0 +1,178 @@
+/*
+* Copyright (c) 2025, VectorCamp PC
+*
+* Licensed under the Apache License, Version 2.0 (the "License");
+* you may not use this file except in compliance with the License.
+* You may obtain a copy of the License at
+*
+*    http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing, software
+* distributed under the License is distributed on an "AS IS" BASIS,
+* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+* See the License for the specific language governing permissions and
+* limitations under the License.
+*/
+
+import * as assert from 'assert';
+import { isInstructionLine, mapInstructionsToSource } from '../mca/sourceMap';
+
+// clang 14 `-S -O1 -gline-tables-only` for
+//
+//   int scale(int *p, int n) {
+//       int x = p[0] * n;
+//       int y = p[1] + x;
+//       return x ^ y;
+//   }
+const CLANG_X86_ASM = `	.text
+	.file	"input.cpp"
+	.globl	_Z5scalePii                     # -- Begin function _Z5scalePii
+	.p2align	4, 0x90
+	.type	_Z5scalePii,@function
+_Z5scalePii:                            # @_Z5scalePii
+.Lfunc_begin0:
+	.file	1 "/tmp/llvm-mca-Xy12ab" "input.cpp"
+	.loc	1 1 0                           # input.cpp:1:0
+	.cfi_startproc
+# %bb.0:
+	.loc	1 2 13 prologue_end             # input.cpp:2:13
+	movl	(%rdi), %eax
+	.loc	1 2 18 is_stmt 0                # input.cpp:2:18
+	imull	%esi, %eax
+	.loc	1 3 13 is_stmt 1                # input.cpp:3:13
+	movl	4(%rdi), %ecx
+	.loc	1 3 18 is_stmt 0                # input.cpp:3:18
+	addl	%eax, %ecx
+	.loc	1 4 14 is_stmt 1                # input.cpp:4:14
+	xorl	%ecx, %eax
+	.loc	1 4 5 is_stmt 0                 # input.cpp:4:5
+	retq
+.Ltmp0:
+.Lfunc_end0:
+	.size	_Z5scalePii, .Lfunc_end0-_Z5scalePii
+	.cfi_endproc
+                                        # -- End function
+	.section	.debug_abbrev,"",@progbits
+	.byte	1                               # Abbreviation Code
+	.ident	"Ubuntu clang version 14.0.0-1ubuntu1.1"
+	.section	".note.GNU-stack","",@progbits
+`;
+
+// The same function for --target=aarch64-linux-gnu
+const CLANG_AARCH64_ASM = `	.text
+	.file	"input.cpp"
+	.globl	_Z5scalePii                     // -- Begin function _Z5scalePii
+	.p2align	2
+	.type	_Z5scalePii,@function
+_Z5scalePii:                            // @_Z5scalePii
+.Lfunc_begin0:
+	.file	1 "/tmp/llvm-mca-Xy12ab" "input.cpp"
+	.loc	1 1 0                           // input.cpp:1:0
+	.cfi_startproc
+// %bb.0:
+	.loc	1 2 13 prologue_end             // input.cpp:2:13
+	ldp	w8, w9, [x0]
+	.loc	1 2 18 is_stmt 0                // input.cpp:2:18
+	mul	w8, w8, w1
+	.loc	1 3 18 is_stmt 1                // input.cpp:3:18
+	add	w9, w9, w8
+	.loc	1 4 14                          // input.cpp:4:14
+	eor	w0, w9, w8
+	.loc	1 4 5 is_stmt 0                 // input.cpp:4:5
+	ret
+.Ltmp0:
+.Lfunc_end0:
+	.size	_Z5scalePii, .Lfunc_end0-_Z5scalePii
+	.cfi_endproc
+                                        // -- End function
+`;
+
+// gcc 12 `-S -O2 -mavx2 -g1` for
+//
+//   #include <immintrin.h>
+//   void add(float *a, float *b, float *c, int n) {
+//       for (int i = 0; i < n; i += 8) {
+//           __m256 x = _mm256_loadu_ps(a + i);
+//           __m256 y = _mm256_loadu_ps(b + i);
+//           _mm256_storeu_ps(c + i, _mm256_add_ps(x, y));
+//       }
+//   }
+const GCC_X86_ASM = `	.file	"input.cpp"
+	.text
+.Ltext0:
+	.file 0 "/tmp/g" "input.cpp"
+	.p2align 4
+	.globl	_Z3addPfS_S_i
+	.type	_Z3addPfS_S_i, @function
+_Z3addPfS_S_i:
+.LFB6403:
+	.file 1 "input.cpp"
+	.loc 1 2 47
+	.cfi_startproc
+.LBB12:
+	.loc 1 3 23
+	testl	%ecx, %ecx
+	jle	.L5
+	xorl	%eax, %eax
+	.p2align 4,,10
+	.p2align 3
+.L3:
+.LBB13:
+.LBB14:
+	.file 2 "/usr/lib/gcc/x86_64-linux-gnu/12/include/avxintrin.h"
+	.loc 2 149 45 discriminator 3
+	vmovups	(%rdi,%rax,4), %ymm1
+	vaddps	(%rsi,%rax,4), %ymm1, %ymm0
+.LBE14:
+.LBE13:
+.LBB15:
+.LBB16:
+	.loc 2 911 20 discriminator 3
+	vmovups	%ymm0, (%rdx,%rax,4)
+.LBE16:
+.LBE15:
+	.loc 1 3 23 discriminator 3
+	addq	$8, %rax
+	cmpl	%eax, %ecx
+	jg	.L3
+	vzeroupper
+.L5:
+.LBE12:
+	.loc 1 8 1
+	ret
+	.cfi_endproc
+.LFE6403:
+	.size	_Z3addPfS_S_i, .-_Z3addPfS_S_i
+.Letext0:
+	.ident	"GCC: (Debian 12.2.0-14+deb12u1) 12.2.0"
+`;
+
+suite('Source Map Test Suite', () => {
+	test('Labels with a trailing comment are not instructions', () => {
+		assert.strictEqual(isInstructionLine('_Z3addPfS_S_i:                          # @_Z3addPfS_S_i'), false);
+		assert.strictEqual(isInstructionLine('add:                                    // @add'), false);
+		assert.strictEqual(isInstructionLine('.LBB0_2:                                # =>This Inner Loop Header: Depth=1'), false);
+		assert.strictEqual(isInstructionLine('\tvaddps\t(%rsi,%rax,4), %ymm0, %ymm0'), true);
+		assert.strictEqual(isInstructionLine('\tadd\tw9, w9, w8'), true);
+	});
+
+	test('Maps clang x86-64 instructions to snippet lines', () => {
+		const mapping = mapInstructionsToSource(CLANG_X86_ASM, 'input.cpp', 0).get('');
+		assert.deepStrictEqual(mapping, [1, 1, 2, 2, 3, 3]);
+	});
+
+	test('Maps clang AArch64 instructions to snippet lines', () => {
+		const mapping = mapInstructionsToSource(CLANG_AARCH64_ASM, 'input.cpp', 0).get('');
+		assert.deepStrictEqual(mapping, [1, 1, 2, 3, 3]);
+	});
+
+	test('Leaves GCC instructions inlined from headers unmapped', () => {
+		const mapping = mapInstructionsToSource(GCC_X86_ASM, 'input.cpp', 0, false).get('');
+		assert.deepStrictEqual(mapping, [2, 2, 2, undefined, undefined, undefined, 2, 2, 2, 2, 7]);
+	});
+
+	test('Header instructions take the last source line when asked to', () => {
+		const mapping = mapInstructionsToSource(GCC_X86_ASM, 'input.cpp', 0).get('');
+		assert.deepStrictEqual(mapping, [2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 7]);
+	});
+});
@@ -0,0 +1,102 @@
+/*
+* Copyright (c) 2025, VectorCamp PC
+*
+* Licensed under the Apache License, Version 2.0 (the "License");
+* you may not use this file except in compliance with the License.
+* You may obtain a copy of the License at
+*
+*    http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing, software
+* distributed under the License is distributed on an "AS IS" BASIS,
+* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+* See the License for the specific language governing permissions and
+* limitations under the License.
+*/
+import * as assert from 'assert';
+import { classifyStackAccess } from '../mca/spills';
+
+// Instructions as the compilers print them, each followed by the expected
+// "kind:class", or "-" for an instruction that is not a vector stack access
+const FIXTURES: Record<string, string> = {
+	'x86-64': `
+		vmovups	%ymm0, 32(%rsp)                 # 32-byte Spill	spill:ymm
+		vmovups	32(%rsp), %ymm1                 # 32-byte Reload	reload:ymm
+		vmovaps	%zmm3, -64(%rbp)	spill:zmm
+		movaps	(%rsp), %xmm2	reload:xmm
+		kmovw	%k1, 6(%rsp)	spill:k
+		vmovups	%ymm0, (%rdi,%rax)	-
+		vaddps	32(%rsp), %ymm0, %ymm0	-
+		movq	%rax, 8(%rsp)	-
+	`,
+	'aarch64': `
+		str	q0, [sp, #16]                   // 16-byte Folded Spill	spill:q
+		ldr	q0, [sp, #16]                   // 16-byte Folded Reload	reload:q
+		stp	d8, d9, [sp, #-32]!	spill:d
+		str	z0, [sp, #1, mul vl]	spill:z
+		ldr	p0, [sp, #7, mul vl]	reload:p
+		st1	{ v0.4s, v1.4s }, [sp]	spill:v
+		str	q0, [x0, #16]	-
+		str	x30, [sp, #-16]!	-
+	`,
+	'arm': `
+		vpush	{d8, d9, d10, d11}	spill:d
+		vpop	{d8, d9, d10, d11}	reload:d
+		vstr	d8, [sp, #8]                    @ 8-byte Spill	spill:d
+		vldr	d8, [sp, #8]                    @ 8-byte Reload	reload:d
+		vst1.64	{d16, d17}, [sp:128]	spill:d
+		vld1.64	{d16, d17}, [r0]	-
+		push	{r4, lr}	-
+	`,
+	'ppc64le': `
+		stxv 34, 48(1)                          # 16-byte Folded Spill	spill:vs
+		lxv 34, 48(1)                           # 16-byte Folded Reload	reload:vs
+		stxvd2x 63, 1, 9	spill:vs
+		stvx 31, 1, 9	spill:v
+		lvx 31, 1, 9	reload:v
+		lxvd2x 0, 3, 9	-
+		std 0, 16(1)	-
+	`,
+	'riscv64': `
+		vs1r.v	v8, (sp)                        # Unknown-size Folded Spill	spill:v
+		vl1re8.v	v8, (sp)                    # Unknown-size Folded Reload	reload:v
+		vse32.v	v8, (sp)	spill:v
+		vle32.v	v8, (a0)	-
+		sd	ra, 8(sp)	-
+	`,
+	'loongarch64': `
+		vst	$vr0, $sp, 16                   # 16-byte Folded Spill	spill:vr
+		vld	$vr0, $sp, 16                   # 16-byte Folded Reload	reload:vr
+		xvst	$xr1, $sp, 32	spill:xr
+		xvld	$xr1, $r3, 32	reload:xr
+		vst	$vr0, $a0, 0	-
+	`,
+	'systemz': `
+		vst	%v0, 160(%r15)                  # 16-byte Folded Spill	spill:v
+		vl	%v0, 160(%r15)                  # 16-byte Folded Reload	reload:v
+		vl	%v0, 0(%r2)	-
+		stg	%r14, 112(%r15)	-
+	`
+};
+
+function expectations(fixture: string): Array<[string, string]> {
+	return fixture.trim().split('\n').map(line => {
+		const tab = line.lastIndexOf('\t');
+		return [line.slice(0, tab).trim(), line.slice(tab + 1)];
+	});
+}
+
+suite('Spills Test Suite', () => {
+	for (const [llvmTarget, fixture] of Object.entries(FIXTURES)) {
+		test(`Classifies ${llvmTarget} stack accesses`, () => {
+			for (const [instruction, expected] of expectations(fixture)) {
+				const found = classifyStackAccess(llvmTarget, instruction);
+				assert.strictEqual(found ? `${found.kind}:${found.registerClass}` : '-', expected, instruction);
+			}
+		});
+	}
+
+	test('Nothing for targets without a classifier', () => {
+		assert.strictEqual(classifyStackAccess('wasm32', 'v128.store 0'), undefined);
+	});
+});
@@ -0,0 +1,47 @@
+/*
+* Copyright (c) 2025, VectorCamp PC
+*
+* Licensed under the Apache License, Version 2.0 (the "License");
+* you may not use this file except in compliance with the License.
+* You may obtain a copy of the License at
+*
+*    http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing, software
+* distributed under the License is distributed on an "AS IS" BASIS,
+* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+* See the License for the specific language governing permissions and
+* limitations under the License.
+*/
+import * as assert from 'assert';
+import { parseHostCpu } from '../mca/toolchain';
+
+// Debian's llvm-mca 14 `--version`, registered targets cut short
+const MCA_14_VERSION = `Debian LLVM version 14.0.6
+  Optimized build.
+  Default target: x86_64-pc-linux-gnu
+  Host CPU: sapphirerapids
+
+  Registered Targets:
+    aarch64    - AArch64 (little endian)
+    x86-64     - 64-bit X86: EM64T and AMD64
+`;
+
+// The same block on an AArch64 host
+const MCA_18_VERSION = `Ubuntu LLVM version 18.1.3
+  Optimized build.
+  Default target: aarch64-unknown-linux-gnu
+  Host CPU: neoverse-n1
+`;
+
+suite('Toolchain Test Suite', () => {
+	test('Reads the host CPU from llvm-mca --version', () => {
+		assert.strictEqual(parseHostCpu(MCA_14_VERSION), 'sapphirerapids');
+		assert.strictEqual(parseHostCpu(MCA_18_VERSION), 'neoverse-n1');
+	});
+
+	test('No host CPU without the line', () => {
+		assert.strictEqual(parseHostCpu('LLVM (http://llvm.org/):\n  LLVM version 9.0.1\n  Optimized build.\n'), null);
+		assert.strictEqual(parseHostCpu(''), null);
+	});
+});